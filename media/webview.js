@@ -6,12 +6,20 @@ const vscode = acquireVsCodeApi();
 /** @type {string} */
 let currentFilePath = '';
 
+/** Root of the repository the current file belongs to; sent with every action */
+let currentRepoRoot = '';
+
 /** @type {string[]} */
 let currentHighlightedLines = [];
 
 let autoScroll = true;
+/** Whether rejecting asks for a second click; set by the diffReviewer.confirmReject setting */
+let confirmReject = true;
 let pendingAutoScroll = false;
 
+/** Git operation in progress in the file's repository (e.g. 'rebase'), during which rejecting is disabled */
+let repoOperation = '';
+
 const container = document.getElementById('container');
 
 // Signal to the extension that we're ready to receive data
@@ -20,7 +28,14 @@ vscode.postMessage({ command: 'ready' });
 // Restore persisted state on reopen
 const savedState = vscode.getState();
 if (savedState && savedState.file) {
-  renderFile(savedState.file, savedState.hunkStatuses || [], savedState.fileContent || [], savedState.highlightedLines || []);
+  renderFile(
+    savedState.file,
+    savedState.hunkStatuses || [],
+    savedState.fileContent || [],
+    savedState.highlightedLines || [],
+    savedState.wordRanges || [],
+    savedState.binary,
+  );
 }
 
 // Listen for messages from the extension
@@ -29,10 +44,24 @@ window.addEventListener('message', (event) => {
 
   switch (msg.command) {
     case 'showFile':
-      currentFilePath = msg.file.newPath || msg.file.oldPath;
+      currentFilePath = getFilePath(msg.file);
       currentHighlightedLines = msg.highlightedLines || [];
-      renderFile(msg.file, msg.hunkStatuses, msg.fileContent || [], currentHighlightedLines);
-      vscode.setState({ file: msg.file, hunkStatuses: msg.hunkStatuses, fileContent: msg.fileContent || [], highlightedLines: currentHighlightedLines });
+      renderFile(
+        msg.file,
+        msg.hunkStatuses,
+        msg.fileContent || [],
+        currentHighlightedLines,
+        msg.wordRanges || [],
+        msg.binary,
+      );
+      vscode.setState({
+        file: msg.file,
+        hunkStatuses: msg.hunkStatuses,
+        fileContent: msg.fileContent || [],
+        highlightedLines: currentHighlightedLines,
+        wordRanges: msg.wordRanges || [],
+        binary: msg.binary,
+      });
       if (pendingAutoScroll && autoScroll) {
         pendingAutoScroll = false;
         requestAnimationFrame(() => scrollToFirstPendingHunk());
@@ -43,6 +72,24 @@ window.addEventListener('message', (event) => {
       updateHunkStatus(msg.hunkIndex, msg.status);
       break;
 
+    case 'config':
+      autoScroll = msg.config.autoScroll;
+      confirmReject = msg.config.confirmReject;
+      document.querySelectorAll('.auto-scroll-label input').forEach((el) => {
+        /** @type {HTMLInputElement} */ (el).checked = autoScroll;
+      });
+      break;
+
+    case 'repoState':
+      repoOperation = msg.operation || '';
+      applyRepoState();
+      break;
+
+    case 'revealHunk':
+      // After the first-pending auto-scroll queued by renderFile
+      requestAnimationFrame(() => revealHunk(msg.hunkId));
+      break;
+
     case 'clear':
       if (container) {
         container.innerHTML = '<div class="empty-notice">No diff data.</div>';
@@ -58,12 +105,15 @@ window.addEventListener('message', (event) => {
  * @param {string[]} hunkStatuses - Array of HunkStatus
  * @param {string[]} fileContent - Lines of the current file on disk
  * @param {string[]} highlightedLines - Pre-highlighted HTML per line
+ * @param {Record<number, [number, number][]>[]} wordRanges - Changed words per hunk (HunkWordRanges)
+ * @param {any} [binary] - BinaryPreview, for binary files
  */
-function renderFile(file, hunkStatuses, fileContent, highlightedLines) {
+function renderFile(file, hunkStatuses, fileContent, highlightedLines, wordRanges, binary) {
   if (!container) return;
   container.innerHTML = '';
 
-  const filePath = file.newPath || file.oldPath;
+  currentRepoRoot = file.repoRoot || '';
+  const filePath = getFilePath(file);
 
   // Top bar with Approve All / Reject All
   const topBar = document.createElement('div');
@@ -74,35 +124,57 @@ function renderFile(file, hunkStatuses, fileContent, highlightedLines) {
 
   const title = document.createElement('span');
   title.className = 'top-bar-title';
-  title.textContent = filePath;
+  const source = file.renamedFrom || file.copiedFrom;
+  title.textContent = source ? `${source} → ${filePath}` : filePath;
   titleGroup.appendChild(title);
 
+  if (file.isDeleted) {
+    const deletedTag = document.createElement('span');
+    deletedTag.className = 'top-bar-deleted';
+    deletedTag.textContent = 'deleted';
+    titleGroup.appendChild(deletedTag);
+  }
+
+  if (repoOperation) {
+    titleGroup.appendChild(createOperationTag());
+  }
+
   const editLink = document.createElement('a');
   editLink.className = 'top-bar-edit-link';
   editLink.textContent = 'Edit file';
   editLink.href = '#';
   editLink.addEventListener('click', (e) => {
     e.preventDefault();
-    vscode.postMessage({ command: 'openInEditor', filePath });
+    vscode.postMessage({ command: 'openInEditor', filePath, repoRoot: currentRepoRoot });
   });
-  titleGroup.appendChild(editLink);
+  // A deleted file has nothing on disk to open
+  if (!file.isDeleted) {
+    titleGroup.appendChild(editLink);
+  }
 
   topBar.appendChild(titleGroup);
 
   container.appendChild(topBar);
 
   const pendingCount = hunkStatuses.filter((/** @type {string} */ s) => s === 'pending').length;
-  createFloatingBar(filePath, pendingCount);
+  const whitespaceCount = file.hunks.filter(
+    (/** @type {any} */ h, /** @type {number} */ i) => h.whitespaceOnly && hunkStatuses[i] === 'pending',
+  ).length;
+  createFloatingBar(filePath, pendingCount, whitespaceCount);
 
   if (file.isBinary) {
-    const notice = document.createElement('div');
-    notice.className = 'binary-notice';
-    notice.textContent = 'Binary file — no hunk-level review available.';
-    container.appendChild(notice);
+    // Reviewed as a whole: the file-level cards, then both versions side by side
+    const binaryArea = document.createElement('div');
+    binaryArea.className = 'file-content';
+    file.hunks.forEach((/** @type {any} */ h, /** @type {number} */ i) => {
+      binaryArea.appendChild(createMetaHunk(h, i, hunkStatuses[i] || 'pending', filePath, file));
+    });
+    binaryArea.appendChild(createBinaryPreview(binary));
+    container.appendChild(binaryArea);
     return;
   }
 
-  if (file.hunks.length === 0) {
+  if (file.hunks.length === 0 && !file.conflicts?.length) {
     const notice = document.createElement('div');
     notice.className = 'empty-notice';
     notice.textContent = 'No changes in this file.';
@@ -112,32 +184,67 @@ function renderFile(file, hunkStatuses, fileContent, highlightedLines) {
 
   const contentArea = document.createElement('div');
   contentArea.className = 'file-content';
+  // A deletion is restored as a whole, so its lines can't be selected
+  if (file.isDeleted) {
+    contentArea.classList.add('deleted-file');
+  }
 
   /** @type {{ hunk: any, index: number, status: string }[]} */
-  const hunkEntries = file.hunks.map((/** @type {any} */ h, /** @type {number} */ i) => ({
+  const allEntries = file.hunks.map((/** @type {any} */ h, /** @type {number} */ i) => ({
     hunk: h,
     index: i,
     status: hunkStatuses[i] || 'pending',
   }));
 
+  // File-level changes (rename, copy, mode) have no line position — show them first
+  for (const entry of allEntries.filter((e) => e.hunk.meta)) {
+    contentArea.appendChild(createMetaHunk(entry.hunk, entry.index, entry.status, filePath, file));
+  }
+
+  const hunkEntries = allEntries.filter((e) => !e.hunk.meta);
   hunkEntries.sort((a, b) => a.hunk.newStart - b.hunk.newStart);
 
+  // A deleted file's content is its old side: every line sits inside the removal hunks
+  const oldHighlightedLines = file.isDeleted ? highlightedLines : undefined;
+  const newContent = file.isDeleted ? [] : fileContent;
+
+  // Conflicts replace the hunks that overlapped them, so none starts inside one
+  /** @type {any[]} */
+  const conflicts = file.conflicts || [];
+
   let fileLineIndex = 0;
   let hunkPtr = 0;
+  let conflictPtr = 0;
 
-  while (fileLineIndex < fileContent.length || hunkPtr < hunkEntries.length) {
+  while (fileLineIndex < newContent.length || hunkPtr < hunkEntries.length) {
     const currentLine = fileLineIndex + 1;
 
+    if (conflictPtr < conflicts.length && fileLineIndex === conflicts[conflictPtr].start) {
+      const conflict = conflicts[conflictPtr];
+      contentArea.appendChild(createConflictCard(conflict, conflictPtr, filePath, highlightedLines));
+      fileLineIndex = conflict.end + 1;
+      conflictPtr++;
+      continue;
+    }
+
     if (hunkPtr < hunkEntries.length && currentLine === hunkEntries[hunkPtr].hunk.newStart) {
       const entry = hunkEntries[hunkPtr];
-      const hunkEl = createInlineHunk(entry.hunk, entry.index, entry.status, filePath, highlightedLines);
+      const hunkEl = createInlineHunk(
+        entry.hunk,
+        entry.index,
+        entry.status,
+        filePath,
+        highlightedLines,
+        oldHighlightedLines,
+        wordRanges[entry.index],
+      );
       contentArea.appendChild(hunkEl);
       fileLineIndex += entry.hunk.newCount;
       hunkPtr++;
       continue;
     }
 
-    if (fileLineIndex < fileContent.length) {
+    if (fileLineIndex < newContent.length) {
       const nextHunkStart = hunkPtr < hunkEntries.length ? hunkEntries[hunkPtr].hunk.newStart : Infinity;
       if (currentLine < nextHunkStart) {
         const hlLine = highlightedLines[fileLineIndex] || escapeHtml(fileContent[fileLineIndex]);
@@ -150,7 +257,15 @@ function renderFile(file, hunkStatuses, fileContent, highlightedLines) {
     } else {
       if (hunkPtr < hunkEntries.length) {
         const entry = hunkEntries[hunkPtr];
-        const hunkEl = createInlineHunk(entry.hunk, entry.index, entry.status, filePath, highlightedLines);
+        const hunkEl = createInlineHunk(
+          entry.hunk,
+          entry.index,
+          entry.status,
+          filePath,
+          highlightedLines,
+          oldHighlightedLines,
+          wordRanges[entry.index],
+        );
         contentArea.appendChild(hunkEl);
         hunkPtr++;
       } else {
@@ -200,12 +315,39 @@ function createFileLine(lineNum, highlightedHtml) {
  * @param {string} status
  * @param {string} filePath
  * @param {string[]} highlightedLines - Full file highlighted lines
+ * @param {string[]} [oldHighlightedLines] - Highlighted lines of the old side, if available
+ * @param {Record<number, [number, number][]>} [lineRanges] - Changed words, keyed by line index
  * @returns {HTMLElement}
  */
-function createInlineHunk(hunk, index, status, filePath, highlightedLines) {
+function createInlineHunk(
+  hunk,
+  index,
+  status,
+  filePath,
+  highlightedLines,
+  oldHighlightedLines,
+  lineRanges,
+) {
   const el = document.createElement('div');
   el.className = `inline-hunk ${status}`;
   el.dataset.hunkIndex = String(index);
+  el.dataset.hunkId = hunk.id || '';
+
+  if (hunk.moved) {
+    el.classList.add('moved');
+    el.appendChild(createMovedTag(hunk, filePath));
+  }
+
+  // Collapsed to the new lines; the tag expands it to show the exact whitespace
+  if (hunk.whitespaceOnly) {
+    el.classList.add('whitespace-only');
+    const tag = document.createElement('div');
+    tag.className = 'whitespace-tag';
+    tag.textContent = 'Whitespace only';
+    tag.title = 'Show the whitespace changes';
+    tag.addEventListener('click', () => el.classList.toggle('expanded'));
+    el.appendChild(tag);
+  }
 
   let lastChangeIdx = -1;
   for (let i = hunk.lines.length - 1; i >= 0; i--) {
@@ -229,10 +371,17 @@ function createInlineHunk(hunk, index, status, filePath, highlightedLines) {
     const contentEl = document.createElement('span');
     contentEl.className = 'line-content';
 
+    if (line.type !== 'context') {
+      lineEl.dataset.lineIndex = String(i);
+      numEl.title = 'Select to reject only some lines of this change';
+      numEl.addEventListener('click', () => toggleLineSelection(el, lineEl));
+    }
+
     if (line.type === 'remove') {
       numEl.textContent = '';
       // Removed lines aren't in the new file — use escaped plain text with prefix
-      contentEl.innerHTML = '<span class="diff-prefix">-</span>' + escapeHtml(line.content);
+      const hlLine = (oldHighlightedLines && oldHighlightedLines[oldLine - 1]) || escapeHtml(line.content);
+      contentEl.innerHTML = '<span class="diff-prefix">-</span>' + hlLine;
       oldLine++;
     } else if (line.type === 'add') {
       numEl.textContent = String(newLine);
@@ -248,6 +397,10 @@ function createInlineHunk(hunk, index, status, filePath, highlightedLines) {
       newLine++;
     }
 
+    if (lineRanges && lineRanges[i]) {
+      markWordRanges(contentEl, lineRanges[i], 1);
+    }
+
     lineEl.appendChild(numEl);
     lineEl.appendChild(contentEl);
     el.appendChild(lineEl);
@@ -275,6 +428,186 @@ function createInlineHunk(hunk, index, status, filePath, highlightedLines) {
   return el;
 }
 
+/**
+ * Link from one half of a moved block to the other, which may be in another file.
+ * @param {any} hunk - DiffHunk with a `moved` link
+ * @param {string} filePath
+ * @returns {HTMLElement}
+ */
+function createMovedTag(hunk, filePath) {
+  const { moved } = hunk;
+  const isAddition = hunk.lines.some((/** @type {any} */ l) => l.type === 'add');
+  const where = moved.filePath === filePath ? `line ${moved.line}` : `${moved.filePath}:${moved.line}`;
+
+  const tag = document.createElement('a');
+  tag.className = 'moved-tag';
+  tag.href = '#';
+  tag.textContent = isAddition ? `Moved from ${where}` : `Moved to ${where}`;
+  tag.title = 'Approving or rejecting this block also approves or rejects the other half of the move';
+  tag.addEventListener('click', (e) => {
+    e.preventDefault();
+    if (moved.filePath === filePath) {
+      revealHunk(moved.hunkId);
+    } else {
+      vscode.postMessage({
+        command: 'showMoved',
+        repoRoot: currentRepoRoot,
+        filePath: moved.filePath,
+        hunkId: moved.hunkId,
+      });
+    }
+  });
+  return tag;
+}
+
+/**
+ * Scroll to a hunk by its ID and briefly highlight it.
+ * @param {string} hunkId
+ */
+function revealHunk(hunkId) {
+  if (!container || !hunkId) return;
+  const el = /** @type {HTMLElement | null} */ (
+    container.querySelector(`.inline-hunk[data-hunk-id="${CSS.escape(hunkId)}"]`)
+  );
+  if (!el) return;
+  el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  el.classList.remove('revealed');
+  void el.offsetWidth;
+  el.classList.add('revealed');
+}
+
+/**
+ * Wrap character ranges of an element's text in `.word-change` spans. Text
+ * nodes are split in place, so the highlight.js spans around them stay intact.
+ * @param {HTMLElement} el
+ * @param {[number, number][]} ranges - Offsets into the line's content
+ * @param {number} skip - Characters before the content, such as the diff prefix
+ */
+function markWordRanges(el, ranges, skip) {
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  /** @type {Text[]} */
+  const textNodes = [];
+  while (walker.nextNode()) {
+    textNodes.push(/** @type {Text} */ (walker.currentNode));
+  }
+
+  let offset = -skip;
+  for (const node of textNodes) {
+    const start = offset;
+    offset += node.length;
+    // Last range first, so the part of the node before it keeps its offsets
+    for (let r = ranges.length - 1; r >= 0; r--) {
+      const from = Math.max(ranges[r][0], start);
+      const to = Math.min(ranges[r][1], offset);
+      if (from >= to) continue;
+      const changed = node.splitText(from - start);
+      changed.splitText(to - from);
+      const mark = document.createElement('span');
+      mark.className = 'word-change';
+      changed.replaceWith(mark);
+      mark.appendChild(changed);
+    }
+  }
+}
+
+/**
+ * Create a card for a file-level change (rename, copy, mode change or binary
+ * content), which
+ * has no lines of its own but is approved and rejected like a hunk.
+ * @param {any} hunk
+ * @param {number} index
+ * @param {string} status
+ * @param {string} filePath
+ * @param {any} file
+ * @returns {HTMLElement}
+ */
+function createMetaHunk(hunk, index, status, filePath, file) {
+  const el = document.createElement('div');
+  el.className = `inline-hunk meta-hunk ${status}`;
+  el.dataset.hunkIndex = String(index);
+
+  const lineEl = document.createElement('div');
+  lineEl.className = 'diff-line meta';
+  const showSimilarity = (hunk.meta === 'rename' || hunk.meta === 'copy') && file.similarity !== undefined;
+  const similarity = showSimilarity ? ` (${file.similarity}% similar)` : '';
+  lineEl.textContent = hunk.header + similarity;
+  el.appendChild(lineEl);
+
+  if (status === 'pending') {
+    el.appendChild(createHunkActions(filePath, index));
+  } else if (status === 'approved') {
+    el.appendChild(createUndoBadge(filePath, index));
+  } else {
+    const badge = document.createElement('span');
+    badge.className = `hunk-status-badge ${status}`;
+    badge.textContent = status;
+    el.appendChild(badge);
+  }
+  return el;
+}
+
+/**
+ * Show the old and new version of a binary file next to each other: the
+ * image itself when it could be previewed, and its size and object name.
+ * @param {any} binary - BinaryPreview
+ * @returns {HTMLElement}
+ */
+function createBinaryPreview(binary) {
+  const el = document.createElement('div');
+  el.className = 'binary-preview';
+  el.appendChild(createBinarySide('Before', binary && binary.old, 'No previous version'));
+  el.appendChild(createBinarySide('After', binary && binary.new, 'Deleted'));
+  return el;
+}
+
+/**
+ * @param {string} label
+ * @param {any} side - BinarySide, or undefined if this version doesn't exist
+ * @param {string} missingText - Shown when the side doesn't exist
+ * @returns {HTMLElement}
+ */
+function createBinarySide(label, side, missingText) {
+  const el = document.createElement('div');
+  el.className = 'binary-side';
+
+  const title = document.createElement('div');
+  title.className = 'binary-side-title';
+  title.textContent = label;
+  el.appendChild(title);
+
+  if (!side) {
+    const missing = document.createElement('div');
+    missing.className = 'binary-side-missing';
+    missing.textContent = missingText;
+    el.appendChild(missing);
+    return el;
+  }
+
+  if (side.dataUri) {
+    const img = document.createElement('img');
+    img.src = side.dataUri;
+    img.alt = label;
+    el.appendChild(img);
+  }
+
+  const meta = document.createElement('div');
+  meta.className = 'binary-side-meta';
+  meta.textContent = `${formatSize(side.size)} · ${side.sha.slice(0, 10)}`;
+  meta.title = side.sha;
+  el.appendChild(meta);
+  return el;
+}
+
+/**
+ * @param {number} bytes
+ * @returns {string}
+ */
+function formatSize(bytes) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Create an "APPROVED" badge that turns into "UNDO" on hover.
  * @param {string} filePath
@@ -294,7 +627,7 @@ function createUndoBadge(filePath, index) {
     badge.classList.remove('undo-hover');
   });
   badge.addEventListener('click', () => {
-    vscode.postMessage({ command: 'undo', filePath, hunkIndex: index });
+    vscode.postMessage({ command: 'undo', filePath, hunkIndex: index, repoRoot: currentRepoRoot });
   });
   return badge;
 }
@@ -308,9 +641,10 @@ function createUndoBadge(filePath, index) {
  * @param {string} originalLabel
  * @param {() => void} onConfirm
  * @param {(() => void)} [resetPeer] - Optional callback to reset a sibling confirm button
+ * @param {() => boolean} [needsConfirm] - When this returns false, the first click acts at once
  * @returns {() => void} reset function to revert this button
  */
-function makeRejectWithConfirm(btn, originalLabel, onConfirm, resetPeer) {
+function makeRejectWithConfirm(btn, originalLabel, onConfirm, resetPeer, needsConfirm = () => true) {
   let timerId = /** @type {NodeJS.Timeout|undefined} */ (undefined);
 
   const reset = () => {
@@ -319,7 +653,7 @@ function makeRejectWithConfirm(btn, originalLabel, onConfirm, resetPeer) {
   };
 
   btn.addEventListener('click', () => {
-    if (btn.textContent === 'Confirm?') {
+    if (btn.textContent === 'Confirm?' || !needsConfirm()) {
       clearTimeout(timerId);
       onConfirm();
     } else {
@@ -334,6 +668,21 @@ function makeRejectWithConfirm(btn, originalLabel, onConfirm, resetPeer) {
   return reset;
 }
 
+/**
+ * Select or deselect a changed line of a pending hunk for rejecting on its own,
+ * and show the hunk's "Reject selected" button while any line is selected.
+ * @param {HTMLElement} hunkEl
+ * @param {HTMLElement} lineEl
+ */
+function toggleLineSelection(hunkEl, lineEl) {
+  if (!hunkEl.classList.contains('pending') || hunkEl.closest('.deleted-file')) return;
+  lineEl.classList.toggle('selected');
+  const btn = /** @type {HTMLButtonElement | null} */ (hunkEl.querySelector('.btn-reject-lines'));
+  if (btn) {
+    btn.hidden = !hunkEl.querySelector('.diff-line.selected');
+  }
+}
+
 /**
  * @param {string} filePath
  * @param {number} index
@@ -347,22 +696,286 @@ function createHunkActions(filePath, index) {
   approveBtn.className = 'btn-approve';
   approveBtn.textContent = 'Approve';
   approveBtn.addEventListener('click', () => {
-    vscode.postMessage({ command: 'approve', filePath, hunkIndex: index });
+    vscode.postMessage({ command: 'approve', filePath, hunkIndex: index, repoRoot: currentRepoRoot });
   });
 
   const rejectBtn = document.createElement('button');
   rejectBtn.className = 'btn-reject';
   rejectBtn.textContent = 'Reject';
+  applyOperationToRejectButton(rejectBtn);
   makeRejectWithConfirm(rejectBtn, 'Reject', () => {
     pendingAutoScroll = true;
-    vscode.postMessage({ command: 'reject', filePath, hunkIndex: index });
+    vscode.postMessage({ command: 'reject', filePath, hunkIndex: index, repoRoot: currentRepoRoot });
+  }, undefined, () => confirmReject);
+
+  // Shown while lines are selected; rejects just those
+  const rejectLinesBtn = document.createElement('button');
+  rejectLinesBtn.className = 'btn-reject btn-reject-lines';
+  rejectLinesBtn.textContent = 'Reject selected';
+  rejectLinesBtn.hidden = true;
+  applyOperationToRejectButton(rejectLinesBtn);
+  makeRejectWithConfirm(rejectLinesBtn, 'Reject selected', () => {
+    const selected = actionsEl.closest('.inline-hunk')?.querySelectorAll('.diff-line.selected') || [];
+    const lineIndexes = Array.from(selected).map((el) => Number(/** @type {HTMLElement} */ (el).dataset.lineIndex));
+    vscode.postMessage({
+      command: 'rejectLines',
+      filePath,
+      hunkIndex: index,
+      lineIndexes,
+      repoRoot: currentRepoRoot,
+    });
+  }, undefined, () => confirmReject);
+
+  const editBtn = document.createElement('button');
+  editBtn.className = 'btn-secondary btn-edit';
+  editBtn.textContent = 'Edit';
+  editBtn.title = 'Edit the new lines of this change before approving it';
+  editBtn.addEventListener('click', () => {
+    const hunkEl = /** @type {HTMLElement | null} */ (actionsEl.closest('.inline-hunk'));
+    if (hunkEl) startHunkEdit(hunkEl, filePath, index);
+  });
+
+  const suggestBtn = document.createElement('button');
+  suggestBtn.className = 'btn-reject btn-suggest';
+  suggestBtn.textContent = 'Suggest';
+  applyOperationToRejectButton(suggestBtn);
+  suggestBtn.addEventListener('click', () => {
+    const hunkEl = /** @type {HTMLElement | null} */ (actionsEl.closest('.inline-hunk'));
+    if (hunkEl) startHunkEdit(hunkEl, filePath, index, true);
   });
 
+  actionsEl.appendChild(editBtn);
   actionsEl.appendChild(approveBtn);
   actionsEl.appendChild(rejectBtn);
+  actionsEl.appendChild(suggestBtn);
+  actionsEl.appendChild(rejectLinesBtn);
   return actionsEl;
 }
 
+/**
+ * Turn the new lines of a pending hunk into a text area. Saving writes them to
+ * the file (or the index when reviewing staged changes), and the file comes
+ * back re-diffed; emptying the area removes the lines. With `suggest`, the
+ * area holds just the changed lines and submitting rejects the hunk in favour
+ * of the text.
+ * @param {HTMLElement} hunkEl
+ * @param {string} filePath
+ * @param {number} index
+ * @param {boolean} [suggest]
+ */
+function startHunkEdit(hunkEl, filePath, index, suggest = false) {
+  const hunk = vscode.getState()?.file?.hunks[index];
+  if (!hunk || hunkEl.classList.contains('editing')) return;
+  hunkEl.classList.add('editing');
+  hunkEl.querySelectorAll('.diff-line.selected').forEach((el) => el.classList.remove('selected'));
+
+  /** @type {any[]} */
+  let shown = hunk.lines.filter((/** @type {any} */ l) => l.type !== 'remove');
+  if (suggest) {
+    // The context around the changes stays as it is
+    const first = shown.findIndex((l) => l.type === 'add');
+    let last = shown.length - 1;
+    while (last >= 0 && shown[last].type !== 'add') last--;
+    shown = first === -1 ? [] : shown.slice(first, last + 1);
+  }
+  const lines = shown.map((l) => l.content.replace(/\r$/, ''));
+
+  /** @param {string[]} edited @param {boolean} approve */
+  const save = (edited, approve) => {
+    if (suggest) {
+      pendingAutoScroll = true;
+      vscode.postMessage({
+        command: 'rejectWithSuggestion',
+        filePath,
+        hunkIndex: index,
+        lines: edited,
+        repoRoot: currentRepoRoot,
+      });
+      return;
+    }
+    vscode.postMessage({
+      command: 'editHunk',
+      filePath,
+      hunkIndex: index,
+      lines: edited,
+      approve,
+      repoRoot: currentRepoRoot,
+    });
+  };
+
+  const { editor, actionsEl, getLines } = createLineEditor(
+    lines,
+    () => hunkEl.classList.remove('editing'),
+    (edited) => save(edited, false),
+  );
+
+  if (suggest) {
+    const suggestBtn = document.createElement('button');
+    suggestBtn.className = 'btn-reject';
+    suggestBtn.textContent = 'Reject with suggestion';
+    applyOperationToRejectButton(suggestBtn);
+    suggestBtn.addEventListener('click', () => save(getLines(), false));
+    actionsEl.appendChild(suggestBtn);
+  } else {
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'btn-secondary';
+    saveBtn.textContent = 'Save';
+    saveBtn.title = 'Save and keep reviewing the change (Ctrl+Enter)';
+    saveBtn.addEventListener('click', () => save(getLines(), false));
+
+    const approveBtn = document.createElement('button');
+    approveBtn.className = 'btn-approve';
+    approveBtn.textContent = 'Save and approve';
+    approveBtn.addEventListener('click', () => save(getLines(), true));
+
+    actionsEl.appendChild(saveBtn);
+    actionsEl.appendChild(approveBtn);
+  }
+
+  hunkEl.insertBefore(editor, hunkEl.querySelector('.hunk-inline-actions'));
+  editor.querySelector('textarea')?.focus();
+}
+
+/**
+ * A text area for lines with a Cancel button; callers add their own buttons to
+ * `actionsEl`. Ctrl+Enter submits and Escape cancels. An empty area means no lines.
+ * @param {string[]} lines
+ * @param {() => void} onCancel - Called after the editor is removed
+ * @param {(lines: string[]) => void} onSubmit
+ * @returns {{ editor: HTMLElement, actionsEl: HTMLElement, getLines: () => string[] }}
+ */
+function createLineEditor(lines, onCancel, onSubmit) {
+  const editor = document.createElement('div');
+  editor.className = 'hunk-editor';
+
+  const textarea = document.createElement('textarea');
+  textarea.className = 'hunk-editor-text';
+  textarea.value = lines.join('\n');
+  textarea.rows = lines.length + 1;
+  textarea.spellcheck = false;
+
+  const getLines = () => (textarea.value === '' ? [] : textarea.value.split('\n'));
+  const cancel = () => {
+    editor.remove();
+    onCancel();
+  };
+
+  textarea.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      cancel();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit(getLines());
+    }
+  });
+
+  const actionsEl = document.createElement('div');
+  actionsEl.className = 'hunk-editor-actions';
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.className = 'btn-secondary';
+  cancelBtn.textContent = 'Cancel';
+  cancelBtn.addEventListener('click', cancel);
+  actionsEl.appendChild(cancelBtn);
+
+  editor.appendChild(textarea);
+  editor.appendChild(actionsEl);
+  return { editor, actionsEl, getLines };
+}
+
+/**
+ * A conflict left by a merge, showing each side between its markers, with the
+ * actions that resolve it.
+ * @param {any} conflict - ConflictRegion
+ * @param {number} index - Index into the file's conflicts
+ * @param {string} filePath
+ * @param {string[]} highlightedLines - Highlighted lines of the file, markers included
+ * @returns {HTMLElement}
+ */
+function createConflictCard(conflict, index, filePath, highlightedLines) {
+  const el = document.createElement('div');
+  el.className = 'conflict-card';
+  el.dataset.conflictIndex = String(index);
+
+  let lineIndex = conflict.start + 1;
+  /**
+   * @param {string} side
+   * @param {string} name
+   * @param {string} label
+   * @param {string[]} lines
+   */
+  const addSide = (side, name, label, lines) => {
+    const header = document.createElement('div');
+    header.className = `conflict-label ${side}`;
+    header.textContent = label ? `${name} · ${label}` : name;
+    el.appendChild(header);
+    for (const line of lines) {
+      const lineEl = createFileLine(lineIndex + 1, highlightedLines[lineIndex] || escapeHtml(line));
+      lineEl.className = `file-line conflict-line ${side}`;
+      el.appendChild(lineEl);
+      lineIndex++;
+    }
+    // The marker that ends the side
+    lineIndex++;
+  };
+  addSide('ours', 'Ours', conflict.oursLabel, conflict.ours);
+  if (conflict.base) {
+    addSide('base', 'Common ancestor', '', conflict.base);
+  }
+  addSide('theirs', 'Theirs', conflict.theirsLabel, conflict.theirs);
+
+  /** @param {string} resolution @param {string[]} [lines] */
+  const resolve = (resolution, lines) => {
+    vscode.postMessage({
+      command: 'resolveConflict',
+      filePath,
+      conflictIndex: index,
+      resolution,
+      lines,
+      repoRoot: currentRepoRoot,
+    });
+  };
+
+  const actionsEl = document.createElement('div');
+  actionsEl.className = 'hunk-inline-actions';
+  for (const [resolution, label] of [
+    ['ours', 'Take ours'],
+    ['theirs', 'Take theirs'],
+    ['both', 'Take both'],
+  ]) {
+    const btn = document.createElement('button');
+    btn.className = 'btn-approve';
+    btn.textContent = label;
+    btn.addEventListener('click', () => resolve(resolution));
+    actionsEl.appendChild(btn);
+  }
+
+  const editBtn = document.createElement('button');
+  editBtn.className = 'btn-secondary';
+  editBtn.textContent = 'Edit';
+  editBtn.addEventListener('click', () => {
+    if (el.classList.contains('editing')) return;
+    el.classList.add('editing');
+    const lines = [...conflict.ours, ...conflict.theirs].map((l) => l.replace(/\r$/, ''));
+    const { editor, actionsEl: editorActions, getLines } = createLineEditor(
+      lines,
+      () => el.classList.remove('editing'),
+      (edited) => resolve('edit', edited),
+    );
+    const resolveBtn = document.createElement('button');
+    resolveBtn.className = 'btn-approve';
+    resolveBtn.textContent = 'Resolve';
+    resolveBtn.addEventListener('click', () => resolve('edit', getLines()));
+    editorActions.appendChild(resolveBtn);
+    el.insertBefore(editor, actionsEl);
+    editor.querySelector('textarea')?.focus();
+  });
+  actionsEl.appendChild(editBtn);
+
+  el.appendChild(actionsEl);
+  return el;
+}
+
 /**
  * @param {number} hunkIndex
  * @param {string} status
@@ -371,10 +984,13 @@ function updateHunkStatus(hunkIndex, status) {
   const hunkEl = container?.querySelector(`.inline-hunk[data-hunk-index="${hunkIndex}"]`);
   if (!hunkEl) return;
 
-  hunkEl.className = `inline-hunk ${status}`;
+  const kept = ['meta-hunk', 'whitespace-only', 'expanded', 'moved'].filter((c) => hunkEl.classList.contains(c));
+  hunkEl.className = ['inline-hunk', ...kept, status].join(' ');
 
   const oldActions = hunkEl.querySelector('.hunk-inline-actions');
   if (oldActions) oldActions.remove();
+  hunkEl.querySelector('.hunk-editor')?.remove();
+  hunkEl.querySelectorAll('.diff-line.selected').forEach((el) => el.classList.remove('selected'));
   const oldBadge = hunkEl.querySelector('.hunk-status-badge');
   if (oldBadge) oldBadge.remove();
 
@@ -421,7 +1037,8 @@ function updateHunkStatus(hunkIndex, status) {
   // Update floating bar based on pending hunks
   if (container) {
     const pendingHunks = container.querySelectorAll('.inline-hunk.pending');
-    createFloatingBar(currentFilePath, pendingHunks.length);
+    const whitespaceHunks = container.querySelectorAll('.inline-hunk.pending.whitespace-only');
+    createFloatingBar(currentFilePath, pendingHunks.length, whitespaceHunks.length);
   }
 
   // Auto-scroll to next pending hunk after approve
@@ -433,12 +1050,46 @@ function updateHunkStatus(hunkIndex, status) {
   requestAnimationFrame(() => buildScrollMap());
 }
 
+/**
+ * Tag shown next to the file name while a git operation is in progress.
+ * @returns {HTMLElement}
+ */
+function createOperationTag() {
+  const tag = document.createElement('span');
+  tag.className = 'top-bar-operation';
+  tag.textContent = `${repoOperation} in progress`;
+  return tag;
+}
+
+/**
+ * Disable a reject button while a git operation is in progress, since
+ * rewriting files could corrupt it.
+ * @param {HTMLButtonElement} btn
+ */
+function applyOperationToRejectButton(btn) {
+  btn.disabled = Boolean(repoOperation);
+  btn.title = repoOperation ? `Rejecting is disabled while a ${repoOperation} is in progress` : '';
+}
+
+/** Update the rendered file after the repository's operation started or finished. */
+function applyRepoState() {
+  document.querySelectorAll('.btn-reject').forEach((btn) => {
+    applyOperationToRejectButton(/** @type {HTMLButtonElement} */ (btn));
+  });
+  document.querySelector('.top-bar-operation')?.remove();
+  const titleGroup = document.querySelector('.top-bar-title-group');
+  if (repoOperation && titleGroup) {
+    titleGroup.insertBefore(createOperationTag(), titleGroup.querySelector('.top-bar-edit-link'));
+  }
+}
+
 /**
  * Create (or recreate) the floating action bar at the bottom-center.
  * @param {string} filePath
  * @param {number} pendingCount
+ * @param {number} [whitespaceCount] - Pending hunks that only change whitespace
  */
-function createFloatingBar(filePath, pendingCount) {
+function createFloatingBar(filePath, pendingCount, whitespaceCount = 0) {
   const existing = document.getElementById('floating-bar');
   if (existing) existing.remove();
 
@@ -466,18 +1117,30 @@ function createFloatingBar(filePath, pendingCount) {
     acceptBtn.textContent = 'Accept file';
     const resetAccept = makeRejectWithConfirm(acceptBtn, 'Accept file', () => {
       pendingAutoScroll = true;
-      vscode.postMessage({ command: 'approveAll', filePath });
+      vscode.postMessage({ command: 'approveAll', filePath, repoRoot: currentRepoRoot });
     }, () => peerRef.reset());
     bar.appendChild(acceptBtn);
 
     const rejectBtn = document.createElement('button');
     rejectBtn.className = 'btn-reject';
     rejectBtn.textContent = 'Reject file';
+    applyOperationToRejectButton(rejectBtn);
     peerRef.reset = makeRejectWithConfirm(rejectBtn, 'Reject file', () => {
       pendingAutoScroll = true;
-      vscode.postMessage({ command: 'rejectAll', filePath });
-    }, resetAccept);
+      vscode.postMessage({ command: 'rejectAll', filePath, repoRoot: currentRepoRoot });
+    }, resetAccept, () => confirmReject);
     bar.appendChild(rejectBtn);
+
+    if (whitespaceCount > 0) {
+      const whitespaceBtn = document.createElement('button');
+      whitespaceBtn.className = 'btn-approve';
+      whitespaceBtn.textContent = `Accept whitespace (${whitespaceCount})`;
+      whitespaceBtn.title = 'Approve every pending hunk that only changes whitespace';
+      whitespaceBtn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'approveWhitespace', filePath, repoRoot: currentRepoRoot });
+      });
+      bar.appendChild(whitespaceBtn);
+    }
   }
 
   const sep3 = document.createElement('span');
@@ -584,6 +1247,7 @@ function createAutoScrollCheckbox() {
   checkbox.checked = autoScroll;
   checkbox.addEventListener('change', () => {
     autoScroll = checkbox.checked;
+    vscode.postMessage({ command: 'setAutoScroll', value: autoScroll });
   });
 
   const text = document.createElement('span');
@@ -706,3 +1370,12 @@ function escapeHtml(text) {
     .replace(/>/g, '&gt;')
     .replace(/"/g, '&quot;');
 }
+
+/**
+ * Path a file is reviewed under — mirrors getFilePath in diffParser.ts.
+ * @param {any} file - DiffFile
+ * @returns {string}
+ */
+function getFilePath(file) {
+  return file.newPath && file.newPath !== '/dev/null' ? file.newPath : file.oldPath;
+}
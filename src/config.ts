@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { Config, parseConfig } from './settings';
+
+export type { Config } from './settings';
+
+const SECTION = 'diffReviewer';
+
+/** Read the current settings, falling back to the defaults for invalid values. */
+export function readConfig(): Config {
+  return parseConfig(vscode.workspace.getConfiguration(SECTION));
+}
+
+/**
+ * Call `listener` with the new settings whenever a `diffReviewer.*` setting
+ * changes; `affects` tells which ones, by key without the section prefix.
+ */
+export function onDidChangeConfig(
+  listener: (config: Config, affects: (key: string) => boolean) => void,
+): vscode.Disposable {
+  return vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration(SECTION)) {
+      listener(readConfig(), (key) => e.affectsConfiguration(`${SECTION}.${key}`));
+    }
+  });
+}
+
+/** Save a setting in the user settings, e.g. when toggled from the diff view. */
+export async function updateSetting(key: string, value: unknown): Promise<void> {
+  await vscode.workspace
+    .getConfiguration(SECTION)
+    .update(key, value, vscode.ConfigurationTarget.Global);
+}
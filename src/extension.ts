@@ -1,37 +1,126 @@
 import { join } from 'path';
 import * as vscode from 'vscode';
-import { GitAdapter } from './git/gitAdapter';
 import { FileTreeProvider } from './sidebar/fileTreeProvider';
+import {
+  REJECTED_SCHEME,
+  RejectedNode,
+  RejectedTreeProvider,
+} from './sidebar/rejectedTreeProvider';
 import { DiffPanelProvider } from './webview/diffPanelProvider';
 import { StateManager } from './state/stateManager';
-import { DiffFile, HunkStatus, WebviewToExtMessage } from './types';
+import {
+  BinaryPreview,
+  DiffFile,
+  DiffHunk,
+  HunkStatus,
+  HunkWordRanges,
+  ReviewMode,
+  UndoEntry,
+  WebviewToExtMessage,
+} from './types';
 import { highlightFileContent } from './highlighter';
+import { computeWordRanges } from './wordDiff';
+import { getFilePath } from './git/diffParser';
+import { Config, onDidChangeConfig, readConfig, updateSetting } from './config';
+import {
+  describeRepoState,
+  findRepository,
+  flattenRepositories,
+  openRepository,
+  openSubmodule,
+  Repository,
+  ReviewBase,
+} from './repository';
 
-let git: GitAdapter;
+/** repoRoot → repository, for every git repository in the workspace folders */
+let repositories = new Map<string, Repository>();
 let fileTreeProvider: FileTreeProvider;
+let rejectedTreeProvider: RejectedTreeProvider;
 let diffPanelProvider: DiffPanelProvider;
-let stateManager: StateManager;
+let reviewMode: ReviewMode = 'all';
+let config: Config;
+/** repoRoot → watcher of the files in which git records HEAD, the index and operations */
+const gitStateWatchers = new Map<string, vscode.Disposable>();
 
-/** Read file content + highlight, then send to webview. */
+/**
+ * Files in a git directory that change when HEAD or the index moves, or when a
+ * rebase, merge, cherry-pick, revert or bisect starts or ends.
+ */
+const GIT_STATE_FILES =
+  '{HEAD,index,MERGE_HEAD,CHERRY_PICK_HEAD,REVERT_HEAD,BISECT_LOG,rebase-merge,rebase-merge/*,rebase-apply,rebase-apply/*}';
+
+const BASE_STORAGE_KEY = 'diffReviewer.base';
+const MODE_STORAGE_KEY = 'diffReviewer.mode';
+
+const MODE_LABELS: Record<ReviewMode, string> = {
+  all: 'All',
+  staged: 'Staged',
+  unstaged: 'Unstaged',
+};
+
+type BasePickItem = vscode.QuickPickItem & { base?: ReviewBase; action?: 'mergeBase' | 'custom' };
+
+/** Apply the current settings to a newly opened repository. */
+function configureRepository(repo: Repository): void {
+  repo.stateManager.setStageOnApprove(config.stageOnApprove);
+  repo.stateManager.setFileLookup((filePath) => findFile(repo, filePath));
+  repo.stateManager.setTrashListener(() => rejectedTreeProvider.refresh());
+  repo.git.setReviewRules(config.reviewRules);
+  repo.git.setHunkGranularity(config.hunkGranularity, config.mergeContextLines);
+  repo.git.setIgnoreWhitespace(config.ignoreWhitespace);
+  repo.git.setMaxOutputSize(config.maxOutputSize);
+  repo.git.setMaxFileDiffSize(config.maxFileDiffSize);
+}
+
+/**
+ * Read file content + highlight, then send to webview. A deleted file is read
+ * from the old side of the diff since it no longer exists on the new one, and
+ * a binary file is described by its preview instead of lines.
+ */
 async function getFileData(
-  filePath: string,
-): Promise<{ fileContent: string[]; highlightedLines: string[] }> {
-  const fileContent = await git.getFileContent(filePath);
+  repo: Repository,
+  file: DiffFile,
+): Promise<{
+  fileContent: string[];
+  highlightedLines: string[];
+  wordRanges: HunkWordRanges[];
+  binary?: BinaryPreview;
+}> {
+  const filePath = getFilePath(file);
+  if (file.isBinary) {
+    return {
+      fileContent: [],
+      highlightedLines: [],
+      wordRanges: [],
+      binary: await repo.git.getBinaryPreview(file),
+    };
+  }
+  const fileContent = file.isDeleted
+    ? await repo.git.getDeletedFileContent(filePath)
+    : await repo.git.getFileContent(filePath);
   const highlightedLines = highlightFileContent(filePath, fileContent);
-  return { fileContent, highlightedLines };
+  return { fileContent, highlightedLines, wordRanges: computeWordRanges(file.hunks) };
 }
 
 export async function activate(context: vscode.ExtensionContext) {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) {
+  if (!vscode.workspace.workspaceFolders?.length) {
     vscode.window.showErrorMessage('Diff Reviewer: No workspace folder open.');
     return;
   }
 
-  git = new GitAdapter(workspaceFolder.uri.fsPath);
-  await git.init();
-  stateManager = new StateManager(git, context.workspaceState);
-  fileTreeProvider = new FileTreeProvider(git, stateManager);
+  reviewMode = context.workspaceState.get<ReviewMode>(MODE_STORAGE_KEY) ?? 'all';
+  config = readConfig();
+  fileTreeProvider = new FileTreeProvider(async (parent, file) => {
+    const submodule = await openSubmodule(parent, getFilePath(file), context.workspaceState);
+    // Submodules follow the global review mode but always compare against their own HEAD
+    if (submodule && !submodule.state) {
+      submodule.git.setMode(reviewMode);
+      configureRepository(submodule);
+      await watchRepositoryState(submodule, updateDescription);
+    }
+    return submodule;
+  });
+  fileTreeProvider.setRefreshDelay(config.refreshDelay);
 
   // Sidebar tree view
   const treeView = vscode.window.createTreeView('diffReviewer.fileTree', {
@@ -39,97 +128,465 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(treeView);
 
+  rejectedTreeProvider = new RejectedTreeProvider(() => flattenRepositories(repositories.values()));
+  context.subscriptions.push(
+    vscode.window.createTreeView('diffReviewer.rejectedChanges', {
+      treeDataProvider: rejectedTreeProvider,
+    }),
+    vscode.workspace.registerTextDocumentContentProvider(REJECTED_SCHEME, rejectedTreeProvider),
+  );
+
+  const updateDescription = () => {
+    treeView.description = describeReview();
+    treeView.message =
+      repositories.size === 0
+        ? 'No git repositories found in the workspace.'
+        : describeOperations();
+  };
+
   // Update badge when tree data changes
   fileTreeProvider.onDidChangeTreeData(() => {
     const count = fileTreeProvider.getFiles().length;
     treeView.badge = count > 0 ? { value: count, tooltip: `${count} modified files` } : undefined;
   });
 
+  /** (Re)discover repositories, keeping the ones already open. */
+  const loadRepositories = async () => {
+    const bases = context.workspaceState.get<Record<string, ReviewBase>>(BASE_STORAGE_KEY) ?? {};
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const next = new Map<string, Repository>();
+
+    for (const [index, folder] of folders.entries()) {
+      const repo = await openRepository(
+        folder.uri.fsPath,
+        context.workspaceState,
+        index === 0,
+        repositories,
+      );
+      if (!repo || next.has(repo.root)) {
+        continue;
+      }
+      if (repositories.get(repo.root) === repo) {
+        next.set(repo.root, repo);
+        continue;
+      }
+      repo.base = bases[repo.root];
+      if (repo.base) {
+        repo.git.setBaseRef(repo.base.ref);
+      }
+      repo.git.setMode(reviewMode);
+      configureRepository(repo);
+      await watchRepositoryState(repo, updateDescription);
+      next.set(repo.root, repo);
+    }
+
+    const open = new Set(flattenRepositories(next.values()).map((r) => r.root));
+    for (const [root, watcher] of gitStateWatchers) {
+      if (!open.has(root)) {
+        watcher.dispose();
+        gitStateWatchers.delete(root);
+      }
+    }
+    repositories = next;
+    fileTreeProvider.setRepositories([...repositories.values()]);
+    rejectedTreeProvider.refresh();
+    updateDescription();
+    await fileTreeProvider.refresh();
+  };
+
+  context.subscriptions.push(
+    onDidChangeConfig((next, affects) => {
+      config = next;
+      for (const repo of flattenRepositories(repositories.values())) {
+        configureRepository(repo);
+      }
+      fileTreeProvider.setRefreshDelay(config.refreshDelay);
+      diffPanelProvider.setWebviewConfig(config.webview);
+      // These change which hunks exist, so open panels would point at stale indices
+      if (['hunkGranularity', 'mergeContextLines'].some(affects)) {
+        diffPanelProvider.dispose();
+        regroupHunks().catch(() => undefined);
+      } else if (
+        [
+          'include',
+          'exclude',
+          'honorGitAttributes',
+          'ignoreWhitespace',
+          'ignoreWhitespaceMode',
+          'maxFileDiffSizeKB',
+        ].some(affects)
+      ) {
+        diffPanelProvider.dispose();
+        fileTreeProvider.refresh().catch(showError);
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => loadRepositories().catch(showError)),
+  );
+
   // Webview panel provider
   diffPanelProvider = new DiffPanelProvider(
     context.extensionUri,
-    handleWebviewMessage,
+    config.webview,
+    (msg) => handleWebviewMessage(msg).catch(showError),
     handlePanelFocus,
   );
   context.subscriptions.push({ dispose: () => diffPanelProvider.dispose() });
+  context.subscriptions.push({
+    dispose: () => gitStateWatchers.forEach((watcher) => watcher.dispose()),
+  });
 
   // Commands
   context.subscriptions.push(
     vscode.commands.registerCommand('diffReviewer.refresh', async () => {
-      stateManager.clear();
+      for (const repo of flattenRepositories(repositories.values())) {
+        repo.stateManager.clear();
+      }
+      await fileTreeProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.selectBase', async () => {
+      const repo = await pickRepository('Select the base for which repository?');
+      if (!repo) {
+        return;
+      }
+      const picked = await pickBase(repo);
+      if (!picked) {
+        return;
+      }
+      repo.base = picked;
+      repo.git.setBaseRef(picked.ref);
+      const bases = context.workspaceState.get<Record<string, ReviewBase>>(BASE_STORAGE_KEY) ?? {};
+      await context.workspaceState.update(BASE_STORAGE_KEY, { ...bases, [repo.root]: picked });
+      updateDescription();
+      await fileTreeProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.selectMode', async () => {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { mode: 'all' as const, description: 'Staged and unstaged changes vs HEAD' },
+          { mode: 'staged' as const, description: 'Index vs HEAD' },
+          { mode: 'unstaged' as const, description: 'Working tree vs index' },
+        ].map((item) => ({
+          ...item,
+          label: MODE_LABELS[item.mode],
+          picked: item.mode === reviewMode,
+        })),
+        { placeHolder: 'Review which changes?' },
+      );
+      if (!picked || picked.mode === reviewMode) {
+        return;
+      }
+      reviewMode = picked.mode;
+      for (const repo of flattenRepositories(repositories.values())) {
+        repo.git.setMode(reviewMode);
+      }
+      await context.workspaceState.update(MODE_STORAGE_KEY, reviewMode);
+      updateDescription();
+      diffPanelProvider.dispose();
       await fileTreeProvider.refresh();
     }),
 
     vscode.commands.registerCommand('diffReviewer.openFile', async (file: DiffFile) => {
-      const filePath = file.newPath || file.oldPath;
-      const statuses = stateManager.syncStatuses(file);
-      const { fileContent, highlightedLines } = await getFileData(filePath);
-      diffPanelProvider.showFile(file, statuses, fileContent, highlightedLines);
+      const repo = repositoryOf(file);
+      if (!repo) {
+        return;
+      }
+      if (file.tooLarge) {
+        // Collapsed for its size: diff it in full now that it was asked for
+        const filePath = getFilePath(file);
+        repo.git.openLargeFile(filePath);
+        try {
+          await fileTreeProvider.refresh();
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : String(err);
+          vscode.window.showErrorMessage(`Cannot load ${filePath}: ${message}`);
+          return;
+        }
+        const loaded = findFile(repo, filePath);
+        if (!loaded) {
+          return;
+        }
+        file = loaded;
+      }
+      const statuses = repo.stateManager.syncStatuses(file);
+      const { fileContent, highlightedLines, wordRanges, binary } = await getFileData(repo, file);
+      diffPanelProvider.showFile(file, statuses, fileContent, highlightedLines, wordRanges, binary);
     }),
 
     vscode.commands.registerCommand('diffReviewer.approveFile', async (file: DiffFile) => {
-      const filePath = file.newPath || file.oldPath;
-      stateManager.syncStatuses(file);
-      stateManager.approveAll(filePath, file);
-      fileTreeProvider.refresh();
-      const statuses = stateManager.getStatusArray(file);
-      const { fileContent, highlightedLines } = await getFileData(filePath);
-      diffPanelProvider.refreshFile(file, statuses, fileContent, highlightedLines);
+      const repo = repositoryOf(file);
+      if (!repo) {
+        return;
+      }
+      const filePath = getFilePath(file);
+      repo.stateManager.syncStatuses(file);
+      try {
+        await repo.stateManager.approveAll(filePath, file);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Approve all failed: ${message}`);
+      }
+      if (approvalRemovesHunks()) {
+        await refreshFilePanel(repo, filePath);
+        await refreshMovedPanels(repo, filePath, file.hunks);
+        return;
+      }
+      await refreshMovedPanels(repo, filePath, file.hunks);
+      await fileTreeProvider.refresh();
+      const statuses = repo.stateManager.getStatusArray(file);
+      const { fileContent, highlightedLines, wordRanges, binary } = await getFileData(repo, file);
+      diffPanelProvider.refreshFile(
+        file,
+        statuses,
+        fileContent,
+        highlightedLines,
+        wordRanges,
+        binary,
+      );
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.toggleIgnoreWhitespace', () =>
+      updateSetting('ignoreWhitespace', config.ignoreWhitespace === 'none'),
+    ),
+
+    vscode.commands.registerCommand('diffReviewer.approveWhitespaceOnly', async () => {
+      const approved: { repo: Repository; filePath: string }[] = [];
+      let count = 0;
+      try {
+        for (const repo of flattenRepositories(repositories.values())) {
+          for (const file of fileTreeProvider.getFiles(repo.root)) {
+            const filePath = getFilePath(file);
+            repo.stateManager.syncStatuses(file);
+            const approvedInFile = await repo.stateManager.approveWhitespaceOnly(filePath, file);
+            if (approvedInFile > 0) {
+              count += approvedInFile;
+              approved.push({ repo, filePath });
+            }
+          }
+        }
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Approve failed: ${message}`);
+      }
+      if (count === 0) {
+        vscode.window.showInformationMessage('No pending whitespace-only changes.');
+        return;
+      }
+      await fileTreeProvider.refresh();
+      for (const { repo, filePath } of approved) {
+        if (diffPanelProvider.hasPanel(repo.root, filePath)) {
+          await refreshFilePanel(repo, filePath);
+        }
+      }
+      vscode.window.showInformationMessage(`Approved ${count} whitespace-only hunk(s).`);
     }),
 
     vscode.commands.registerCommand('diffReviewer.rejectFile', async (file: DiffFile) => {
-      const filePath = file.newPath || file.oldPath;
-      stateManager.syncStatuses(file);
+      const repo = repositoryOf(file);
+      if (!repo) {
+        return;
+      }
+      const filePath = getFilePath(file);
+      repo.stateManager.syncStatuses(file);
       try {
-        const updatedFile = await stateManager.rejectAll(filePath, file);
+        const updatedFile = await repo.stateManager.rejectAll(filePath, file);
         if (updatedFile) {
-          await sendRefresh(filePath, updatedFile);
+          await sendRefresh(repo, filePath, updatedFile);
         } else {
-          diffPanelProvider.closeFile(filePath);
+          diffPanelProvider.closeFile(repo.root, filePath);
         }
         await fileTreeProvider.refresh();
+        await refreshMovedPanels(repo, filePath, file.hunks);
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
         vscode.window.showErrorMessage(`Reject all failed: ${message}`);
       }
     }),
 
+    vscode.commands.registerCommand('diffReviewer.commitApproved', async () => {
+      if (reviewMode === 'unstaged') {
+        vscode.window.showErrorMessage(
+          'Commit Approved is not available in Unstaged mode. Switch to All or Staged first.',
+        );
+        return;
+      }
+
+      await fileTreeProvider.refresh();
+      const commits = flattenRepositories(repositories.values())
+        .map((repo) => {
+          const files = fileTreeProvider.getFiles(repo.root);
+          files.forEach((f) => repo.stateManager.syncStatuses(f));
+          return { repo, approved: repo.stateManager.getApprovedPatches(files) };
+        })
+        .filter((c) => c.approved.length > 0);
+      if (commits.length === 0) {
+        vscode.window.showInformationMessage('No approved hunks to commit.');
+        return;
+      }
+
+      const approvedFiles = commits.flatMap((c) => c.approved);
+      const hunkCount = approvedFiles.reduce((n, a) => n + a.hunkCount, 0);
+      const repoNote = commits.length > 1 ? ` across ${commits.length} repositories` : '';
+      const message = await vscode.window.showInputBox({
+        prompt: `Commit ${hunkCount} approved hunk(s) in ${approvedFiles.length} file(s)${repoNote}`,
+        placeHolder: 'Commit message',
+        validateInput: (value) => (value.trim() ? undefined : 'Enter a commit message'),
+      });
+      if (!message) {
+        return;
+      }
+
+      const committed: typeof commits = [];
+      for (const commit of commits) {
+        const { repo, approved } = commit;
+        try {
+          await repo.git.commitPatches(
+            approved.filter((a) => !a.binary).map((a) => a.patch),
+            approved.flatMap((a) => a.paths),
+            message,
+            approved.filter((a) => a.binary).flatMap((a) => a.paths),
+          );
+          committed.push(commit);
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : String(err);
+          vscode.window.showErrorMessage(`Commit failed in ${repo.name}: ${message}`);
+        }
+      }
+      if (committed.length === 0) {
+        return;
+      }
+
+      await fileTreeProvider.refresh();
+      for (const { repo, approved } of committed) {
+        const remaining = fileTreeProvider.getFiles(repo.root);
+        repo.stateManager.pruneCommittedFiles(remaining);
+        for (const a of approved) {
+          const file = remaining.find((f) => getFilePath(f) === a.filePath);
+          if (file) {
+            await sendRefresh(repo, a.filePath, file, repo.stateManager.syncStatuses(file));
+          } else {
+            diffPanelProvider.closeFile(repo.root, a.filePath);
+          }
+        }
+      }
+      const committedCount = committed
+        .flatMap((c) => c.approved)
+        .reduce((n, a) => n + a.hunkCount, 0);
+      vscode.window.showInformationMessage(`Committed ${committedCount} approved hunk(s).`);
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.previewRejected', (node: RejectedNode) =>
+      vscode.window.showTextDocument(rejectedTreeProvider.previewUri(node), { preview: true }),
+    ),
+
+    vscode.commands.registerCommand('diffReviewer.restoreRejected', async (node: RejectedNode) => {
+      let restored: Awaited<ReturnType<StateManager['restoreRejected']>>;
+      try {
+        restored = await node.repo.stateManager.restoreRejected(node.entry.id);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Re-apply failed: ${message}`);
+        return;
+      }
+      await fileTreeProvider.refresh();
+      await refreshOpenPanel(node.repo, restored.filePath);
+      if (restored.conflicts) {
+        vscode.window.showWarningMessage(
+          `${restored.filePath} changed since the rejection. The change was merged in with conflicts; resolve the conflict markers in the file.`,
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.deleteRejected', async (node: RejectedNode) => {
+      const picked = await vscode.window.showWarningMessage(
+        `Delete the rejected change to ${node.entry.filePath} for good?`,
+        { modal: true },
+        'Delete',
+      );
+      if (picked === 'Delete') {
+        await node.repo.stateManager.discardRejected(node.entry.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('diffReviewer.emptyRejected', async () => {
+      const picked = await vscode.window.showWarningMessage(
+        'Delete all rejected changes for good?',
+        { modal: true },
+        'Delete All',
+      );
+      if (picked !== 'Delete All') {
+        return;
+      }
+      for (const repo of flattenRepositories(repositories.values())) {
+        await repo.stateManager.emptyTrash();
+      }
+    }),
+
     vscode.commands.registerCommand('diffReviewer.undo', async () => {
-      const result = await stateManager.undo();
-      if (!result) {
+      // Undo the most recent action across all repositories
+      const repo = flattenRepositories(repositories.values())
+        .filter((r) => r.stateManager.lastActionTime() !== undefined)
+        .sort((a, b) => b.stateManager.lastActionTime()! - a.stateManager.lastActionTime()!)[0];
+
+      if (!repo) {
         vscode.window.showInformationMessage('Nothing to undo.');
         return;
       }
 
-      if (result.undoneType === 'reject') {
-        await refreshFilePanel(result.filePath);
+      let result: Awaited<ReturnType<StateManager['undo']>>;
+      try {
+        result = await repo.stateManager.undo();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Undo failed: ${message}`);
+        return;
+      }
+      if (!result) {
+        vscode.window.showInformationMessage('Nothing to undo.');
+        return;
       }
 
-      await fileTreeProvider.refresh();
+      await refreshAfterHistory(repo, result.filePath, result.undoneType, result.movedFilePath);
+    }),
 
-      if (result.undoneType === 'approve') {
-        const files = fileTreeProvider.getFiles();
-        const file = files.find((f) => (f.newPath || f.oldPath) === result.filePath);
-        if (file) {
-          await sendRefresh(result.filePath, file);
-        }
+    vscode.commands.registerCommand('diffReviewer.redo', async () => {
+      // Redo the most recently undone action across all repositories
+      const repo = flattenRepositories(repositories.values())
+        .filter((r) => r.stateManager.lastUndoTime() !== undefined)
+        .sort((a, b) => b.stateManager.lastUndoTime()! - a.stateManager.lastUndoTime()!)[0];
+
+      if (!repo) {
+        vscode.window.showInformationMessage('Nothing to redo.');
+        return;
+      }
+
+      let result: Awaited<ReturnType<StateManager['redo']>>;
+      try {
+        result = await repo.stateManager.redo();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Redo failed: ${message}`);
+        return;
+      }
+      if (!result) {
+        vscode.window.showInformationMessage('Nothing to redo.');
+        return;
       }
+
+      await refreshAfterHistory(repo, result.filePath, result.redoneType, result.movedFilePath);
     }),
   );
 
   // File system watcher with debounce for auto-refresh
-  let refreshTimer: ReturnType<typeof setTimeout> | undefined;
   const watcher = vscode.workspace.createFileSystemWatcher('**/*');
 
-  const debouncedRefresh = () => {
-    if (refreshTimer) {
-      clearTimeout(refreshTimer);
+  const debouncedRefresh = (uri: vscode.Uri) => fileTreeProvider.scheduleRefresh(uri.fsPath);
+  fileTreeProvider.onDidScheduledRefresh(() => {
+    for (const repo of flattenRepositories(repositories.values())) {
+      repo.stateManager.pruneCommittedFiles(fileTreeProvider.getFiles(repo.root));
     }
-    refreshTimer = setTimeout(async () => {
-      await fileTreeProvider.refresh();
-      stateManager.pruneCommittedFiles(fileTreeProvider.getFiles());
-    }, 500);
-  };
+  });
 
   watcher.onDidChange(debouncedRefresh);
   watcher.onDidCreate(debouncedRefresh);
@@ -137,57 +594,351 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(watcher);
 
   // Initial load
-  fileTreeProvider.refresh();
+  loadRepositories().catch(showError);
+}
+
+/**
+ * Show the outcome of undoing or redoing an action on `filePath`, and on the
+ * other half of a moved block in `movedFilePath`.
+ */
+async function refreshAfterHistory(
+  repo: Repository,
+  filePath: string,
+  type: UndoEntry['type'],
+  movedFilePath: string | undefined,
+): Promise<void> {
+  // Anything but an approval changes the file itself
+  if (type !== 'approve') {
+    await refreshFilePanel(repo, filePath);
+  }
+
+  await fileTreeProvider.refresh();
+
+  if (type === 'approve') {
+    const file = findFile(repo, filePath);
+    if (file) {
+      await sendRefresh(repo, filePath, file);
+    }
+  }
+  if (movedFilePath) {
+    await refreshOpenPanel(repo, movedFilePath);
+  }
+}
+
+/** Report the failure of work nothing awaits, like a refresh started by an event. */
+function showError(err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  vscode.window.showErrorMessage(`Diff Reviewer: ${message}`);
+}
+
+/**
+ * In unstaged mode with approve-to-stage, approved hunks move to the index and
+ * drop out of the diff, so the panel must be re-diffed rather than patched in place.
+ */
+function approvalRemovesHunks(): boolean {
+  return config.stageOnApprove && reviewMode === 'unstaged';
 }
 
-async function handlePanelFocus(filePath: string): Promise<void> {
+/**
+ * Read a repository's branch and in-progress operation, then keep them up to
+ * date as git changes them. Must run before the repository's first diff so the
+ * approvals of the checked-out branch are loaded.
+ */
+async function watchRepositoryState(repo: Repository, onChange: () => void): Promise<void> {
+  await updateRepoState(repo);
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(vscode.Uri.file(repo.git.getGitDir()), GIT_STATE_FILES),
+  );
+  const changed = async () => {
+    try {
+      await updateRepoState(repo);
+    } catch {
+      // The repository may be mid-way through an update; the next event retries
+    }
+    onChange();
+    fileTreeProvider.scheduleRefresh();
+  };
+  watcher.onDidChange(changed);
+  watcher.onDidCreate(changed);
+  watcher.onDidDelete(changed);
+  gitStateWatchers.get(repo.root)?.dispose();
+  gitStateWatchers.set(repo.root, watcher);
+}
+
+/**
+ * Apply a repository's current state: switching branches swaps in that
+ * branch's approvals, so open diff views are closed, and rejecting is
+ * disabled while an operation is in progress.
+ */
+async function updateRepoState(repo: Repository): Promise<void> {
+  const state = await repo.git.getRepoState();
+  const branchChanged = repo.state !== undefined && state.branch !== repo.state.branch;
+  repo.state = state;
+  repo.stateManager.setBranch(state.branch);
+  repo.stateManager.setOperation(state.operation);
+  diffPanelProvider.setOperation(repo.root, state.operation);
+  if (branchChanged) {
+    diffPanelProvider.dispose();
+  }
+}
+
+/** Tree view message for repositories with a rebase, merge, etc. in progress. */
+function describeOperations(): string | undefined {
+  const busy = flattenRepositories(repositories.values()).filter((r) => r.state?.operation);
+  if (busy.length === 0) {
+    return undefined;
+  }
+  const names = busy.map((r) => `${r.name} (${r.state!.operation})`).join(', ');
+  return `Operation in progress in ${names}: rejecting is disabled until it finishes.`;
+}
+
+function repositoryOf(file: DiffFile): Repository | undefined {
+  return findRepository(repositories.values(), file.repoRoot);
+}
+
+function findFile(repo: Repository, filePath: string): DiffFile | undefined {
+  return fileTreeProvider.getFiles(repo.root).find((f) => getFilePath(f) === filePath);
+}
+
+/**
+ * Tree view description summarising the review mode and, with a single
+ * repository, its branch, state and base — e.g. "feature · Staged · vs main".
+ * With several repositories each repository node shows its own.
+ */
+function describeReview(): string | undefined {
+  const [only, ...others] = repositories.values();
+  const parts = others.length === 0 ? describeRepoState(only?.state) : [];
+  if (reviewMode !== 'all') {
+    parts.push(MODE_LABELS[reviewMode]);
+  }
+  const base = others.length === 0 ? only?.base : undefined;
+  if (base && base.ref !== 'HEAD' && reviewMode !== 'unstaged') {
+    parts.push(`vs ${base.label}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+/**
+ * Resolve which repository a command applies to, asking only when the
+ * workspace has more than one.
+ */
+async function pickRepository(placeHolder: string): Promise<Repository | undefined> {
+  const repos = [...repositories.values()];
+  if (repos.length <= 1) {
+    return repos[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    repos.map((repo) => ({ label: repo.name, description: repo.root, repo })),
+    { placeHolder },
+  );
+  return picked?.repo;
+}
+
+/**
+ * Let the user choose what to review against: HEAD, a branch/tag, the merge-base
+ * with a branch, or an arbitrary commit. Returns undefined if cancelled or invalid.
+ */
+async function pickBase(repo: Repository): Promise<ReviewBase | undefined> {
+  const { git } = repo;
+  const refs = await git.listRefs();
+  const refItems: BasePickItem[] = refs.map((r) => ({
+    label: r.name,
+    description: r.kind,
+    base: { ref: r.name, label: r.name },
+  }));
+
+  const picked = await vscode.window.showQuickPick<BasePickItem>(
+    [
+      {
+        label: '$(git-commit) HEAD',
+        description: 'Uncommitted changes only',
+        base: { ref: 'HEAD', label: 'HEAD' },
+      },
+      { label: '$(git-merge) Merge base with…', action: 'mergeBase' },
+      { label: '$(edit) Enter a ref or commit…', action: 'custom' },
+      { label: 'Refs', kind: vscode.QuickPickItemKind.Separator },
+      ...refItems,
+    ],
+    { placeHolder: 'Review changes against…' },
+  );
+  if (!picked) {
+    return undefined;
+  }
+
+  try {
+    if (picked.action === 'mergeBase') {
+      const target = await vscode.window.showQuickPick(refItems, {
+        placeHolder: 'Merge base of HEAD and…',
+      });
+      if (!target?.base) {
+        return undefined;
+      }
+      const sha = await git.getMergeBase(target.base.ref);
+      return { ref: sha, label: `merge-base with ${target.base.label}` };
+    }
+
+    if (picked.action === 'custom') {
+      const ref = (
+        await vscode.window.showInputBox({ prompt: 'Ref or commit to review against' })
+      )?.trim();
+      if (!ref) {
+        return undefined;
+      }
+      await git.resolveCommit(ref);
+      return { ref, label: ref };
+    }
+
+    if (picked.base && picked.base.ref !== 'HEAD') {
+      await git.resolveCommit(picked.base.ref);
+    }
+    return picked.base;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    vscode.window.showErrorMessage(`Cannot use that base: ${message}`);
+    return undefined;
+  }
+}
+
+async function handlePanelFocus(repoRoot: string, filePath: string): Promise<void> {
+  const repo = findRepository(repositories.values(), repoRoot);
+  if (!repo) {
+    return;
+  }
   await fileTreeProvider.refresh();
-  const files = fileTreeProvider.getFiles();
-  const file = files.find((f) => (f.newPath || f.oldPath) === filePath);
+  const file = findFile(repo, filePath);
   if (file) {
-    const statuses = stateManager.syncStatuses(file);
-    await sendRefresh(filePath, file, statuses);
+    const statuses = repo.stateManager.syncStatuses(file);
+    await sendRefresh(repo, filePath, file, statuses);
+  }
+}
+
+/**
+ * Re-diff after the hunk granularity changed, carrying each repository's
+ * approvals over to the hunks as they are now split.
+ */
+async function regroupHunks(): Promise<void> {
+  const repos = flattenRepositories(repositories.values());
+  const approved = new Map(
+    repos.map((repo) => [
+      repo.root,
+      repo.stateManager.getApprovedLines(fileTreeProvider.getFiles(repo.root)),
+    ]),
+  );
+  await fileTreeProvider.refresh();
+  for (const repo of repos) {
+    repo.stateManager.restoreApprovedLines(
+      approved.get(repo.root)!,
+      fileTreeProvider.getFiles(repo.root),
+    );
+  }
+  fileTreeProvider.redraw();
+}
+
+/**
+ * Refresh the open panels of other files holding the other half of a moved
+ * block among `hunks`, since acting on one half acted on both.
+ */
+async function refreshMovedPanels(
+  repo: Repository,
+  filePath: string,
+  hunks: DiffHunk[],
+): Promise<void> {
+  const others = new Set(hunks.map((h) => h.moved?.filePath));
+  others.delete(filePath);
+  for (const other of others) {
+    if (other) {
+      await refreshOpenPanel(repo, other);
+    }
+  }
+}
+
+/** Re-send a file to its panel if one is open, closing it once the file has no changes left. */
+async function refreshOpenPanel(repo: Repository, filePath: string): Promise<void> {
+  if (!diffPanelProvider.hasPanel(repo.root, filePath)) {
+    return;
+  }
+  const file = findFile(repo, filePath);
+  if (file) {
+    await sendRefresh(repo, filePath, file, repo.stateManager.syncStatuses(file));
+  } else {
+    diffPanelProvider.closeFile(repo.root, filePath);
   }
 }
 
 async function sendRefresh(
+  repo: Repository,
   filePath: string,
   file: DiffFile,
   statuses?: HunkStatus[],
 ): Promise<void> {
-  const s = statuses || stateManager.getStatusArray(file);
-  const { fileContent, highlightedLines } = await getFileData(filePath);
-  diffPanelProvider.refreshFile(file, s, fileContent, highlightedLines);
+  const s = statuses || repo.stateManager.getStatusArray(file);
+  const { fileContent, highlightedLines, wordRanges, binary } = await getFileData(repo, file);
+  diffPanelProvider.refreshFile(file, s, fileContent, highlightedLines, wordRanges, binary);
 }
 
 async function handleWebviewMessage(msg: WebviewToExtMessage): Promise<void> {
   if (msg.command === 'ready') {
     return;
   }
+  if (msg.command === 'setAutoScroll') {
+    await updateSetting('autoScroll', msg.value);
+    return;
+  }
+
+  const repo = findRepository(repositories.values(), msg.repoRoot);
+  if (!repo) {
+    vscode.window.showErrorMessage(`Repository is no longer open: ${msg.repoRoot}`);
+    return;
+  }
+  const { stateManager } = repo;
 
   if (msg.command === 'openInEditor') {
-    const fileUri = vscode.Uri.file(join(git.getRepoRoot(), msg.filePath));
+    const fileUri = vscode.Uri.file(join(repo.root, msg.filePath));
     await vscode.window.showTextDocument(fileUri, { preview: false });
     return;
   }
 
   if (msg.command === 'approve') {
-    const files = fileTreeProvider.getFiles();
-    const file = files.find((f) => (f.newPath || f.oldPath) === msg.filePath);
-    const hunkId = file?.hunks[msg.hunkIndex]?.id;
-    if (!hunkId) {
+    const file = findFile(repo, msg.filePath);
+    const hunk = file?.hunks[msg.hunkIndex];
+    if (!file || !hunk?.id) {
+      return;
+    }
+    try {
+      await stateManager.approve(msg.filePath, hunk.id, file);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Approve failed: ${message}`);
+      return;
+    }
+    if (approvalRemovesHunks()) {
+      await refreshFilePanel(repo, msg.filePath);
+      await refreshMovedPanels(repo, msg.filePath, [hunk]);
       return;
     }
-    stateManager.approve(msg.filePath, hunkId);
-    diffPanelProvider.updateHunk(msg.filePath, msg.hunkIndex, 'approved');
-    fileTreeProvider.refresh();
+    if (hunk.moved) {
+      // The other half was approved too, possibly in this same panel
+      await sendRefresh(repo, msg.filePath, file);
+      await refreshMovedPanels(repo, msg.filePath, [hunk]);
+    } else {
+      diffPanelProvider.updateHunk(repo.root, msg.filePath, msg.hunkIndex, 'approved');
+    }
+    await fileTreeProvider.refresh();
+    return;
+  }
+
+  if (msg.command === 'showMoved') {
+    const file = findFile(repo, msg.filePath);
+    if (file) {
+      await vscode.commands.executeCommand('diffReviewer.openFile', file);
+      diffPanelProvider.revealHunk(repo.root, msg.filePath, msg.hunkId);
+    }
     return;
   }
 
   if (msg.command === 'reject') {
     try {
-      const files = fileTreeProvider.getFiles();
-      const file = files.find((f) => (f.newPath || f.oldPath) === msg.filePath);
+      const file = findFile(repo, msg.filePath);
       if (!file) {
         vscode.window.showErrorMessage(`File not found in diff: ${msg.filePath}`);
         return;
@@ -201,12 +952,98 @@ async function handleWebviewMessage(msg: WebviewToExtMessage): Promise<void> {
       const updatedFile = await stateManager.reject(msg.filePath, hunkId, file);
 
       if (updatedFile) {
-        await sendRefresh(msg.filePath, updatedFile);
+        await sendRefresh(repo, msg.filePath, updatedFile);
+      } else {
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
+      }
+
+      await fileTreeProvider.refresh();
+      await refreshMovedPanels(repo, msg.filePath, [file.hunks[msg.hunkIndex]]);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Reject failed: ${message}`);
+    }
+    return;
+  }
+
+  if (msg.command === 'rejectLines') {
+    try {
+      const file = findFile(repo, msg.filePath);
+      const hunkId = file?.hunks[msg.hunkIndex]?.id;
+      if (!file || !hunkId) {
+        vscode.window.showErrorMessage(`Hunk not found at index ${msg.hunkIndex}`);
+        return;
+      }
+      const updatedFile = await stateManager.rejectLines(
+        msg.filePath,
+        hunkId,
+        file,
+        msg.lineIndexes,
+      );
+      if (updatedFile) {
+        await sendRefresh(repo, msg.filePath, updatedFile);
       } else {
-        diffPanelProvider.closeFile(msg.filePath);
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
       }
+      await fileTreeProvider.refresh();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Reject failed: ${message}`);
+    }
+    return;
+  }
 
+  if (msg.command === 'resolveConflict') {
+    try {
+      const file = findFile(repo, msg.filePath);
+      if (!file?.conflicts?.[msg.conflictIndex]) {
+        vscode.window.showErrorMessage(`Conflict not found at index ${msg.conflictIndex}`);
+        return;
+      }
+      const updatedFile = await stateManager.resolveConflict(
+        msg.filePath,
+        file,
+        msg.conflictIndex,
+        msg.resolution,
+        msg.lines,
+      );
+      if (updatedFile) {
+        await sendRefresh(repo, msg.filePath, updatedFile);
+      } else {
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
+      }
       await fileTreeProvider.refresh();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Resolve failed: ${message}`);
+    }
+    return;
+  }
+
+  if (msg.command === 'rejectWithSuggestion') {
+    try {
+      const file = findFile(repo, msg.filePath);
+      const hunk = file?.hunks[msg.hunkIndex];
+      if (!file || !hunk?.id) {
+        vscode.window.showErrorMessage(`Hunk not found at index ${msg.hunkIndex}`);
+        return;
+      }
+      const updatedFile = await stateManager.rejectWithSuggestion(
+        msg.filePath,
+        hunk.id,
+        file,
+        msg.lines,
+      );
+      if (approvalRemovesHunks()) {
+        await refreshFilePanel(repo, msg.filePath);
+      } else if (updatedFile) {
+        await sendRefresh(repo, msg.filePath, updatedFile);
+        await fileTreeProvider.refresh();
+      } else {
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
+        await fileTreeProvider.refresh();
+      }
+      await refreshMovedPanels(repo, msg.filePath, [hunk]);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       vscode.window.showErrorMessage(`Reject failed: ${message}`);
@@ -214,35 +1051,106 @@ async function handleWebviewMessage(msg: WebviewToExtMessage): Promise<void> {
     return;
   }
 
+  if (msg.command === 'editHunk') {
+    try {
+      const file = findFile(repo, msg.filePath);
+      const hunkId = file?.hunks[msg.hunkIndex]?.id;
+      if (!file || !hunkId) {
+        vscode.window.showErrorMessage(`Hunk not found at index ${msg.hunkIndex}`);
+        return;
+      }
+      const updatedFile = await stateManager.editHunk(
+        msg.filePath,
+        hunkId,
+        file,
+        msg.lines,
+        msg.approve,
+      );
+      if (msg.approve && approvalRemovesHunks()) {
+        await refreshFilePanel(repo, msg.filePath);
+        return;
+      }
+      if (updatedFile) {
+        await sendRefresh(repo, msg.filePath, updatedFile);
+      } else {
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
+      }
+      await fileTreeProvider.refresh();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Edit failed: ${message}`);
+    }
+    return;
+  }
+
   if (msg.command === 'approveAll') {
-    const files = fileTreeProvider.getFiles();
-    const file = files.find((f) => (f.newPath || f.oldPath) === msg.filePath);
+    const file = findFile(repo, msg.filePath);
     if (!file) {
       return;
     }
 
-    stateManager.approveAll(msg.filePath, file);
-    await sendRefresh(msg.filePath, file);
-    fileTreeProvider.refresh();
+    try {
+      await stateManager.approveAll(msg.filePath, file);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Approve all failed: ${message}`);
+    }
+    if (approvalRemovesHunks()) {
+      await refreshFilePanel(repo, msg.filePath);
+      await refreshMovedPanels(repo, msg.filePath, file.hunks);
+      return;
+    }
+    await sendRefresh(repo, msg.filePath, file);
+    await refreshMovedPanels(repo, msg.filePath, file.hunks);
+    await fileTreeProvider.refresh();
+    return;
+  }
+
+  if (msg.command === 'approveWhitespace') {
+    const file = findFile(repo, msg.filePath);
+    if (!file) {
+      return;
+    }
+    try {
+      await stateManager.approveWhitespaceOnly(msg.filePath, file);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Approve failed: ${message}`);
+    }
+    if (approvalRemovesHunks()) {
+      await refreshFilePanel(repo, msg.filePath);
+      return;
+    }
+    await sendRefresh(repo, msg.filePath, file);
+    await fileTreeProvider.refresh();
     return;
   }
 
   if (msg.command === 'undo') {
-    const files = fileTreeProvider.getFiles();
-    const file = files.find((f) => (f.newPath || f.oldPath) === msg.filePath);
-    const hunkId = file?.hunks[msg.hunkIndex]?.id;
-    if (!hunkId) {
+    const file = findFile(repo, msg.filePath);
+    const hunk = file?.hunks[msg.hunkIndex];
+    if (!file || !hunk?.id) {
       return;
     }
-    stateManager.undoApprove(msg.filePath, hunkId);
-    diffPanelProvider.updateHunk(msg.filePath, msg.hunkIndex, 'pending');
-    fileTreeProvider.refresh();
+    try {
+      await stateManager.undoApprove(msg.filePath, hunk.id);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Undo failed: ${message}`);
+      return;
+    }
+    if (hunk.moved) {
+      await sendRefresh(repo, msg.filePath, file);
+      await refreshMovedPanels(repo, msg.filePath, [hunk]);
+    } else {
+      diffPanelProvider.updateHunk(repo.root, msg.filePath, msg.hunkIndex, 'pending');
+    }
+    await fileTreeProvider.refresh();
     return;
   }
 
   if (msg.command === 'rejectAll') {
-    const files = fileTreeProvider.getFiles();
-    const file = files.find((f) => (f.newPath || f.oldPath) === msg.filePath);
+    const file = findFile(repo, msg.filePath);
     if (!file) {
       return;
     }
@@ -250,11 +1158,12 @@ async function handleWebviewMessage(msg: WebviewToExtMessage): Promise<void> {
     try {
       const updatedFile = await stateManager.rejectAll(msg.filePath, file);
       if (updatedFile) {
-        await sendRefresh(msg.filePath, updatedFile);
+        await sendRefresh(repo, msg.filePath, updatedFile);
       } else {
-        diffPanelProvider.closeFile(msg.filePath);
+        diffPanelProvider.closeFile(repo.root, msg.filePath);
       }
       await fileTreeProvider.refresh();
+      await refreshMovedPanels(repo, msg.filePath, file.hunks);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       vscode.window.showErrorMessage(`Reject all failed: ${message}`);
@@ -262,15 +1171,14 @@ async function handleWebviewMessage(msg: WebviewToExtMessage): Promise<void> {
   }
 }
 
-async function refreshFilePanel(filePath: string): Promise<void> {
+async function refreshFilePanel(repo: Repository, filePath: string): Promise<void> {
   await fileTreeProvider.refresh();
-  const files = fileTreeProvider.getFiles();
-  const file = files.find((f) => (f.newPath || f.oldPath) === filePath);
+  const file = findFile(repo, filePath);
   if (file) {
-    const statuses = stateManager.syncStatuses(file);
-    await sendRefresh(filePath, file, statuses);
+    const statuses = repo.stateManager.syncStatuses(file);
+    await sendRefresh(repo, filePath, file, statuses);
   } else {
-    diffPanelProvider.closeFile(filePath);
+    diffPanelProvider.closeFile(repo.root, filePath);
   }
 }
 
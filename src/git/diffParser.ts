@@ -1,4 +1,14 @@
-import { DiffFile, DiffHunk, DiffLine } from '../types';
+import {
+  ConflictRegion,
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  MetaChangeKind,
+  SubmoduleChange,
+} from '../types';
+
+/** Non-blank lines a block needs before it counts as moved rather than coincidentally repeated */
+const MIN_MOVED_LINES = 3;
 
 /**
  * Parse unified diff output from `git diff` into structured DiffFile objects.
@@ -24,10 +34,10 @@ export function parseDiff(diffText: string): DiffFile[] {
       diffHeader: [],
     };
 
-    // Skip diff --git line
+    const gitLinePath = samePathFromGitLine(lines[i]);
     i++;
 
-    // Skip optional extended headers (old mode, new mode, index, similarity, rename, etc.)
+    // Extended headers: record renames, copies and mode changes, skip the rest (index, etc.)
     while (
       i < lines.length &&
       !lines[i].startsWith('diff --git ') &&
@@ -35,14 +45,17 @@ export function parseDiff(diffText: string): DiffFile[] {
       !lines[i].startsWith('@@') &&
       !lines[i].startsWith('Binary')
     ) {
+      parseExtendedHeader(file, lines[i]);
       i++;
     }
 
-    // Check for binary file
+    // Check for binary file: "Binary files a/<old> and b/<new> differ"
     if (i < lines.length && lines[i].startsWith('Binary')) {
       file.isBinary = true;
-      file.oldPath = extractPath(lines[i - 1] || '', 'a/');
-      file.newPath = extractPath(lines[i - 1] || '', 'b/');
+      const [, oldSide = '', newSide = ''] =
+        lines[i].match(/^Binary files (.*) and (.*) differ$/) ?? [];
+      file.oldPath = oldSide.startsWith('a/') ? oldSide.slice(2) : oldSide;
+      file.newPath = newSide.startsWith('b/') ? newSide.slice(2) : newSide;
       files.push(file);
       i++;
       continue;
@@ -62,6 +75,10 @@ export function parseDiff(diffText: string): DiffFile[] {
       i++;
     }
 
+    // Pure renames, copies and mode changes have no ---/+++ lines
+    file.oldPath ||= file.renamedFrom ?? file.copiedFrom ?? gitLinePath;
+    file.newPath ||= gitLinePath;
+
     // Parse hunks
     while (i < lines.length && !lines[i].startsWith('diff --git ')) {
       if (lines[i].startsWith('@@')) {
@@ -73,12 +90,188 @@ export function parseDiff(diffText: string): DiffFile[] {
       }
     }
 
+    const submodule = parseSubmoduleChange(file.hunks);
+    if (submodule) {
+      file.submodule = submodule;
+      file.hunks = [];
+    }
+
     files.push(file);
   }
 
   return files;
 }
 
+/**
+ * Incremental `git diff` parser: feed it output as it arrives and it returns
+ * each file once the next one starts, so a huge diff never has to be held as
+ * one string. A file whose diff grows past `maxFileSize` bytes keeps only its
+ * header and is returned with `tooLarge` set, unless `isExempt` accepts its path.
+ */
+export class DiffStreamParser {
+  /** Incomplete last line of the previous chunk */
+  private partial = '';
+  /** Lines of the file being read, from its `diff --git` line */
+  private section: string[] = [];
+  private sectionSize = 0;
+  /** Set once the current file went over the limit; its hunk lines are no longer kept */
+  private overLimit = false;
+  /** Set when the current file went over the limit but is read in full anyway */
+  private exempt = false;
+
+  constructor(
+    private maxFileSize = Infinity,
+    private isExempt: (filePath: string) => boolean = () => false,
+  ) {}
+
+  /** Parse a chunk of output, returning the files it completed. */
+  push(chunk: string): DiffFile[] {
+    const lines = (this.partial + chunk).split('\n');
+    this.partial = lines.pop()!;
+    const done: DiffFile[] = [];
+    for (const line of lines) {
+      if (line.startsWith('diff --git ')) {
+        done.push(...this.finishFile());
+      }
+      this.addLine(line);
+    }
+    return done;
+  }
+
+  /** Parse the rest of the output, returning the files it completed. */
+  end(): DiffFile[] {
+    if (this.partial) {
+      this.addLine(this.partial);
+      this.partial = '';
+    }
+    return this.finishFile();
+  }
+
+  private addLine(line: string): void {
+    this.sectionSize += Buffer.byteLength(line) + 1;
+    if (this.overLimit) {
+      return;
+    }
+    if (!this.exempt && this.sectionSize > this.maxFileSize) {
+      const headerEnd = this.section.findIndex((l) => l.startsWith('@@'));
+      const header = headerEnd === -1 ? this.section : this.section.slice(0, headerEnd);
+      const [file] = parseDiff(header.join('\n'));
+      if (!file || !this.isExempt(getFilePath(file))) {
+        this.section = header;
+        this.overLimit = true;
+        return;
+      }
+      this.exempt = true;
+    }
+    this.section.push(line);
+  }
+
+  private finishFile(): DiffFile[] {
+    const files = parseDiff(this.section.join('\n') + '\n');
+    if (this.overLimit) {
+      files.forEach((f) => {
+        f.hunks = [];
+        f.tooLarge = this.sectionSize;
+      });
+    }
+    this.section = [];
+    this.sectionSize = 0;
+    this.overLimit = false;
+    this.exempt = false;
+    return files;
+  }
+}
+
+/**
+ * Record a rename, copy, mode change or the object names of the content from
+ * one extended header line. The
+ * destination of a rename or copy becomes the new path, since it is not
+ * repeated in a `+++` line when the content is unchanged.
+ */
+function parseExtendedHeader(file: DiffFile, line: string): void {
+  const index = line.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/);
+  if (index) {
+    [, file.oldBlob, file.newBlob] = index;
+    return;
+  }
+  const [, key, value] =
+    line.match(
+      /^(old mode|new mode|deleted file mode|rename from|rename to|copy from|copy to|similarity index) (.*)$/,
+    ) ?? [];
+  switch (key) {
+    case 'old mode':
+      file.oldMode = value;
+      break;
+    case 'new mode':
+      file.newMode = value;
+      break;
+    case 'deleted file mode':
+      file.isDeleted = true;
+      file.oldMode = value;
+      break;
+    case 'rename from':
+      file.renamedFrom = value;
+      break;
+    case 'copy from':
+      file.copiedFrom = value;
+      break;
+    case 'rename to':
+    case 'copy to':
+      file.newPath = value;
+      break;
+    case 'similarity index':
+      file.similarity = parseInt(value, 10);
+      break;
+  }
+}
+
+/**
+ * Extract the path from `diff --git a/<path> b/<path>` when both sides are the
+ * same path (as for mode changes), which is the only case where the line can be
+ * split unambiguously. Returns '' otherwise.
+ */
+function samePathFromGitLine(line: string): string {
+  const rest = line.slice('diff --git '.length);
+  const half = (rest.length - 1) / 2;
+  const a = rest.slice(0, half);
+  const b = rest.slice(half + 1);
+  return a.startsWith('a/') && b.startsWith('b/') && a.slice(2) === b.slice(2) ? a.slice(2) : '';
+}
+
+/**
+ * The path a file is reviewed under: its new path, or the old path for a
+ * deletion, whose new side is /dev/null.
+ */
+export function getFilePath(file: DiffFile): string {
+  return file.newPath && file.newPath !== '/dev/null' ? file.newPath : file.oldPath;
+}
+
+const SUBPROJECT_LINE = /^Subproject commit ([0-9a-f]+)(-dirty)?$/;
+
+/**
+ * Recognise the single pseudo-hunk git writes for a submodule
+ * (`-Subproject commit <old>` / `+Subproject commit <new>[-dirty]`).
+ * Returns undefined for ordinary content hunks.
+ */
+function parseSubmoduleChange(hunks: DiffHunk[]): SubmoduleChange | undefined {
+  const changed = hunks.flatMap((h) => h.lines).filter((l) => l.type !== 'context');
+  if (changed.length === 0 || !changed.every((l) => SUBPROJECT_LINE.test(l.content))) {
+    return undefined;
+  }
+
+  const change: SubmoduleChange = { dirty: false };
+  for (const line of changed) {
+    const [, sha, dirty] = line.content.match(SUBPROJECT_LINE)!;
+    if (line.type === 'remove') {
+      change.oldSha = sha;
+    } else {
+      change.newSha = sha;
+      change.dirty = dirty !== undefined;
+    }
+  }
+  return change;
+}
+
 function parseHunk(lines: string[], startIndex: number): { hunk: DiffHunk; nextIndex: number } {
   const headerLine = lines[startIndex];
   const match = headerLine.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)/);
@@ -150,16 +343,144 @@ function parseHunk(lines: string[], startIndex: number): { hunk: DiffHunk; nextI
   return { hunk, nextIndex: i };
 }
 
+/** Old line numbers of the lines a hunk removes, and new line numbers of those it adds. */
+export function changedLineNumbers(hunk: DiffHunk): { removed: number[]; added: number[] } {
+  const removed: number[] = [];
+  const added: number[] = [];
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  for (const line of hunk.lines) {
+    if (line.type === 'remove') {
+      removed.push(oldLine++);
+    } else if (line.type === 'add') {
+      added.push(newLine++);
+    } else {
+      oldLine++;
+      newLine++;
+    }
+  }
+  return { removed, added };
+}
+
+/**
+ * Pair hunks that only remove lines with hunks that only add the same lines,
+ * anywhere in the given files, and link each pair through `moved`. Lines are
+ * compared without indentation and blank lines are ignored, so re-indented
+ * code still counts as moved. Existing links are replaced.
+ */
+export function linkMovedHunks(files: DiffFile[]): void {
+  const removals = new Map<string, { filePath: string; hunk: DiffHunk }[]>();
+  const additions: { filePath: string; hunk: DiffHunk; key: string }[] = [];
+
+  for (const file of files) {
+    const filePath = getFilePath(file);
+    for (const hunk of file.hunks) {
+      delete hunk.moved;
+      if (!hunk.id || hunk.meta || hunk.readOnly) {
+        continue;
+      }
+      const types = new Set(hunk.lines.map((l) => l.type));
+      if (types.has('add') === types.has('remove')) {
+        continue;
+      }
+      const side = types.has('add') ? 'add' : 'remove';
+      const content = hunk.lines
+        .filter((l) => l.type === side)
+        .map((l) => l.content.trim())
+        .filter(Boolean);
+      if (content.length < MIN_MOVED_LINES) {
+        continue;
+      }
+      const key = content.join('\n');
+      if (side === 'add') {
+        additions.push({ filePath, hunk, key });
+      } else {
+        removals.set(key, [...(removals.get(key) ?? []), { filePath, hunk }]);
+      }
+    }
+  }
+
+  for (const added of additions) {
+    const removed = removals.get(added.key)?.shift();
+    if (!removed) {
+      continue;
+    }
+    const { added: addedLines } = changedLineNumbers(added.hunk);
+    const { removed: removedLines } = changedLineNumbers(removed.hunk);
+    removed.hunk.moved = { filePath: added.filePath, hunkId: added.hunk.id!, line: addedLines[0] };
+    added.hunk.moved = {
+      filePath: removed.filePath,
+      hunkId: removed.hunk.id!,
+      line: removedLines[0],
+    };
+  }
+}
+
+/**
+ * Find the conflict regions a merge left in a file, given as lines. A region
+ * missing its closing marker is not a conflict, just text that looks like one.
+ */
+export function parseConflicts(lines: string[]): ConflictRegion[] {
+  const conflicts: ConflictRegion[] = [];
+  let open: ConflictRegion | undefined;
+  let side: 'ours' | 'base' | 'theirs' = 'ours';
+
+  lines.forEach((raw, i) => {
+    const line = raw.replace(/\r$/, '');
+    const marker = /^(<{7}|\|{7}|={7}|>{7})(?: (.*))?$/.exec(line);
+    if (marker?.[1] === '<<<<<<<') {
+      open = {
+        start: i,
+        end: i,
+        ours: [],
+        theirs: [],
+        oursLabel: marker[2] ?? '',
+        theirsLabel: '',
+      };
+      side = 'ours';
+    } else if (!open) {
+      return;
+    } else if (marker?.[1] === '|||||||' && side === 'ours') {
+      open.base = [];
+      side = 'base';
+    } else if (marker?.[1] === '=======' && side !== 'theirs' && marker[2] === undefined) {
+      side = 'theirs';
+    } else if (marker?.[1] === '>>>>>>>' && side === 'theirs') {
+      conflicts.push({ ...open, end: i, theirsLabel: marker[2] ?? '' });
+      open = undefined;
+    } else {
+      (side === 'base' ? open.base! : open[side]).push(raw);
+    }
+  });
+  return conflicts;
+}
+
+/** Whether any new-side line of a hunk, or the spot a removal left, is inside a conflict region. */
+export function overlapsConflict(hunk: DiffHunk, conflicts: ConflictRegion[]): boolean {
+  // 1-indexed, like the hunk's line numbers
+  const first = hunk.newStart;
+  const last = hunk.newStart + hunk.newCount - 1;
+  return conflicts.some(({ start, end }) =>
+    hunk.newCount === 0
+      ? first > start + 1 && first <= end + 1
+      : first <= end + 1 && last >= start + 1,
+  );
+}
+
 /**
  * Split each hunk into granular sub-hunks — one per contiguous group of
- * changed lines. Context lines between changes become boundaries.
+ * changed lines. Context lines between changes become boundaries, unless
+ * there are at most `mergeContext` of them: then the groups on either side
+ * stay together, with those lines as context.
  */
-export function splitHunks(hunks: DiffHunk[]): DiffHunk[] {
+export function splitHunks(hunks: DiffHunk[], mergeContext = 0): DiffHunk[] {
   const result: DiffHunk[] = [];
 
   for (const hunk of hunks) {
-    let oldLine = hunk.oldStart;
-    let newLine = hunk.newStart;
+    // A zero count means the start refers to the line BEFORE the change point
+    // (e.g. "@@ -0,0 +1,3 @@" for a new file), so step to the first affected line
+    let oldLine = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    let newLine = hunk.newCount === 0 ? hunk.newStart + 1 : hunk.newStart;
     let i = 0;
 
     while (i < hunk.lines.length) {
@@ -179,8 +500,28 @@ export function splitHunks(hunks: DiffHunk[]): DiffHunk[] {
       const groupLines: DiffLine[] = [];
       const groupRawLines: string[] = [];
 
-      while (i < hunk.lines.length && hunk.lines[i].type !== 'context') {
+      while (i < hunk.lines.length) {
         const line = hunk.lines[i];
+        if (line.type === 'context') {
+          let gap = 0;
+          while (i + gap < hunk.lines.length && hunk.lines[i + gap].type === 'context') {
+            gap++;
+          }
+          // Trailing context, or a gap too wide to bridge, ends the group
+          if (gap > mergeContext || i + gap === hunk.lines.length) {
+            break;
+          }
+          for (const context of hunk.lines.slice(i, i + gap)) {
+            groupLines.push(context);
+            groupRawLines.push(' ' + context.content);
+          }
+          groupOldCount += gap;
+          groupNewCount += gap;
+          oldLine += gap;
+          newLine += gap;
+          i += gap;
+          continue;
+        }
         groupLines.push(line);
 
         if (line.type === 'remove') {
@@ -217,6 +558,248 @@ export function splitHunks(hunks: DiffHunk[]): DiffHunk[] {
   return result;
 }
 
+/**
+ * Build the synthetic hunks for a file's rename, copy, mode change and binary
+ * content so they can be approved and rejected like line changes. They carry
+ * no lines; the header describes the change and feeds the hunk ID.
+ */
+export function buildMetaHunks(file: DiffFile): DiffHunk[] {
+  const meta = (kind: MetaChangeKind, header: string): DiffHunk => ({
+    oldStart: 0,
+    oldCount: 0,
+    newStart: 0,
+    newCount: 0,
+    header,
+    lines: [],
+    rawLines: [],
+    meta: kind,
+  });
+
+  const hunks: DiffHunk[] = [];
+  if (file.renamedFrom) {
+    hunks.push(meta('rename', `Renamed from ${file.renamedFrom}`));
+  }
+  if (file.copiedFrom) {
+    hunks.push(meta('copy', `Copied from ${file.copiedFrom}`));
+  }
+  if (file.oldMode && file.newMode) {
+    hunks.push(meta('mode', `Mode changed from ${file.oldMode} to ${file.newMode}`));
+  }
+  if (file.isBinary) {
+    hunks.push(meta('binary', describeBinaryChange(file)));
+  } else if (file.isDeleted && file.hunks.length === 0) {
+    // A deleted empty file has no lines to review, so its deletion gets a hunk of its own
+    hunks.push(meta('delete', 'Deleted empty file'));
+  }
+  return hunks;
+}
+
+/** Header of a binary file's hunk; the object names make its ID change with the content. */
+function describeBinaryChange(file: DiffFile): string {
+  const short = (sha = '') => sha.slice(0, 7);
+  if (file.isDeleted) {
+    return `Deleted binary file (${short(file.oldBlob)})`;
+  }
+  if (isNullObject(file.oldBlob)) {
+    return `Added binary file (${short(file.newBlob)})`;
+  }
+  return `Binary file changed (${short(file.oldBlob)} → ${short(file.newBlob)})`;
+}
+
+/** True when an object name is missing or all zeros, git's marker for "no content". */
+export function isNullObject(sha: string | undefined): boolean {
+  return !sha || /^0+$/.test(sha);
+}
+
+/**
+ * Combine the sub-hunks of a `base..worktree` diff with those of the
+ * `HEAD..worktree` diff. Both sides share the working tree as their new file,
+ * so they can be compared by new-file position: base hunks that don't touch
+ * any working-tree hunk were committed since the base and are marked read-only.
+ * Overlapping base hunks are dropped in favour of the actionable working-tree hunk.
+ */
+export function mergeCommittedHunks(baseHunks: DiffHunk[], workingHunks: DiffHunk[]): DiffHunk[] {
+  const span = (h: DiffHunk): [number, number] => [
+    h.newStart,
+    h.newStart + Math.max(h.newCount, 1),
+  ];
+
+  const committed = baseHunks
+    .filter((b) => {
+      // File-level changes have no position; they overlap only a change of the same kind
+      if (b.meta) {
+        return !workingHunks.some((w) => w.meta === b.meta);
+      }
+      const [bStart, bEnd] = span(b);
+      return !workingHunks.some((w) => {
+        if (w.meta) {
+          return false;
+        }
+        const [wStart, wEnd] = span(w);
+        return bStart < wEnd && wStart < bEnd;
+      });
+    })
+    .map((b) => ({ ...b, readOnly: true }));
+
+  return [...workingHunks, ...committed].sort((a, b) => a.newStart - b.newStart);
+}
+
+/**
+ * Build a valid unified diff patch string for a single hunk,
+ * suitable for piping to `git apply`.
+ */
+export function buildPatch(file: DiffFile, hunk: DiffHunk): string {
+  return [...file.diffHeader, ...hunk.rawLines].join('\n') + '\n';
+}
+
+/**
+ * Narrow a hunk to some of its changed lines, given as indexes into `lines`,
+ * for reverse-applying against the working tree: added lines left out become
+ * context, since they stay in the file, and removed lines left out are dropped,
+ * since they stay gone. The new side is unchanged, so the hunk still matches
+ * the file on disk.
+ */
+export function buildPartialHunk(hunk: DiffHunk, selected: number[]): DiffHunk {
+  const keep = new Set(selected);
+  const lines: DiffLine[] = [];
+  hunk.lines.forEach((line, i) => {
+    if (line.type === 'context' || keep.has(i)) {
+      lines.push(line);
+    } else if (line.type === 'add') {
+      lines.push({ type: 'context', content: line.content });
+    }
+  });
+
+  const oldCount = lines.filter((l) => l.type !== 'add').length;
+  // An added file's hunk starts at line 0, which is only valid while the old side is empty
+  const patchOldStart = oldCount === 0 ? hunk.oldStart - 1 : Math.max(hunk.oldStart, 1);
+  const patchNewStart = hunk.newCount === 0 ? hunk.newStart - 1 : hunk.newStart;
+  const header = `@@ -${patchOldStart},${oldCount} +${patchNewStart},${hunk.newCount} @@`;
+  const prefix = { add: '+', remove: '-', context: ' ' };
+  return {
+    ...hunk,
+    oldCount,
+    header,
+    lines,
+    rawLines: [header, ...lines.map((l) => prefix[l.type] + l.content)],
+  };
+}
+
+/**
+ * Build a patch replacing `count` lines of a file, from the 0-indexed `start`,
+ * with `lines`. `content` is the file split on '\n', as read by
+ * GitAdapter.getFileContent. CRLF line endings and a missing final newline are
+ * kept as the file has them. Returns undefined when nothing would change.
+ */
+export function buildEditPatch(
+  filePath: string,
+  content: string[],
+  start: number,
+  count: number,
+  lines: string[],
+): string | undefined {
+  const missingNewline = content[content.length - 1] !== '';
+  const fileLines = missingNewline ? content : content.slice(0, -1);
+  const crlf = fileLines.some((l) => l.endsWith('\r'));
+  let before = fileLines.slice(start, start + count);
+  let after = lines.map((l) => (crlf && !l.endsWith('\r') ? l + '\r' : l));
+  if (before.length === after.length && before.every((l, i) => l === after[i])) {
+    return undefined;
+  }
+
+  const atEnd = missingNewline && fileLines.length > 0 && start + count === fileLines.length;
+  if (atEnd && count === 0) {
+    // Lines can't follow a last line that has no newline: replace that line too
+    start--;
+    before = [fileLines[start]];
+    after = [fileLines[start], ...after];
+  }
+
+  const sideStart = (n: number) => (n === 0 ? start : start + 1);
+  const patch = [
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    `@@ -${sideStart(before.length)},${before.length} +${sideStart(after.length)},${after.length} @@`,
+    ...before.map((l) => '-' + l),
+  ];
+  if (atEnd && before.length > 0) {
+    patch.push('\\ No newline at end of file');
+  }
+  patch.push(...after.map((l) => '+' + l));
+  if (atEnd && after.length > 0) {
+    patch.push('\\ No newline at end of file');
+  }
+  return patch.join('\n') + '\n';
+}
+
+/**
+ * Build one patch containing a subset of a file's split hunks. Each header's
+ * new-side start is recomputed from the hunks actually included, so the patch
+ * applies cleanly to the old side (e.g. HEAD) when other hunks are left out.
+ * Included meta hunks add the matching git extended headers; a rename that is
+ * left out keeps the line changes on the original path.
+ */
+export function buildCombinedPatch(file: DiffFile, hunks: DiffHunk[]): string {
+  const content = hunks.filter((h) => !h.meta);
+  const include = new Set(hunks.map((h) => h.meta));
+  const lines =
+    hasMetaChange(file) || include.has('delete')
+      ? buildGitHeader(file, include, content.length > 0)
+      : [...file.diffHeader];
+  let delta = 0;
+
+  for (const hunk of content.sort((a, b) => a.oldStart - b.oldStart)) {
+    const newStart = hunk.oldStart + delta;
+    const patchOldStart = hunk.oldCount === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const patchNewStart = hunk.newCount === 0 ? newStart - 1 : newStart;
+    lines.push(
+      `@@ -${patchOldStart},${hunk.oldCount} +${patchNewStart},${hunk.newCount} @@`,
+      ...hunk.rawLines.slice(1),
+    );
+    delta += hunk.newCount - hunk.oldCount;
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function hasMetaChange(file: DiffFile): boolean {
+  return Boolean(file.renamedFrom || file.copiedFrom || file.newMode);
+}
+
+/**
+ * Git-style header for a file with a rename, copy or mode change, including
+ * only the file-level changes in `include`.
+ */
+function buildGitHeader(
+  file: DiffFile,
+  include: Set<MetaChangeKind | undefined>,
+  withContent: boolean,
+): string[] {
+  const rename = file.renamedFrom && include.has('rename');
+  const copy = file.copiedFrom && include.has('copy');
+  const source = file.renamedFrom ?? file.copiedFrom ?? file.oldPath;
+  // Without the rename, line changes still apply to the file at its old path
+  const target = file.renamedFrom && !rename ? file.renamedFrom : file.newPath;
+
+  const lines = [`diff --git a/${source} b/${target}`];
+  if (include.has('mode') && file.oldMode && file.newMode) {
+    lines.push(`old mode ${file.oldMode}`, `new mode ${file.newMode}`);
+  }
+  if (rename) {
+    lines.push(`rename from ${file.renamedFrom}`, `rename to ${file.newPath}`);
+  }
+  if (copy) {
+    lines.push(`copy from ${file.copiedFrom}`, `copy to ${file.newPath}`);
+  }
+  if (include.has('delete')) {
+    lines.push(`deleted file mode ${file.oldMode}`);
+  }
+  if (withContent) {
+    lines.push(`--- a/${source}`, `+++ b/${target}`);
+  }
+  return lines;
+}
+
 /**
  * FNV-1a hash producing an 8-char hex string.
  */
@@ -231,9 +814,13 @@ function fnv1a(str: string): string {
 
 /**
  * Compute a content-based ID for a hunk by hashing only the changed lines
- * (add/remove content, not context or line numbers).
+ * (add/remove content, not context or line numbers). Meta hunks hash their
+ * kind and description instead.
  */
 export function computeHunkId(filePath: string, hunk: DiffHunk): string {
+  if (hunk.meta) {
+    return fnv1a(`${filePath}\0${hunk.meta}:${hunk.header}`);
+  }
   const changedContent = hunk.lines
     .filter((l) => l.type === 'add' || l.type === 'remove')
     .map((l) => `${l.type}:${l.content}`)
@@ -265,8 +852,3 @@ export function computeHunkIds(filePath: string, hunks: DiffHunk[]): string[] {
 
   return ids;
 }
-
-function extractPath(line: string, prefix: string): string {
-  const idx = line.indexOf(prefix);
-  return idx >= 0 ? line.slice(idx + prefix.length) : '';
-}
@@ -1,8 +1,8 @@
 /**
  * Extensions that are not meaningful to review as text diffs.
- * Files matching any of these will be excluded from the diff tree.
+ * Untracked files matching any of these are reviewed as binary files.
  */
-const NON_REVIEWABLE_EXTENSIONS = new Set([
+const BINARY_EXTENSIONS = new Set([
   // Images (raster)
   'png',
   'jpg',
@@ -189,12 +189,175 @@ const NON_REVIEWABLE_EXTENSIONS = new Set([
   'proto_bin',
 ]);
 
+/** Image types the diff view can preview, by extension. */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+
+function extensionOf(filePath: string): string | undefined {
+  const name = filePath.split('/').pop() ?? '';
+  return name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+}
+
+/**
+ * Returns true if the file should be reviewed as a binary file rather than as
+ * text, judging by its extension.
+ */
+export function isBinaryPath(filePath: string): boolean {
+  const ext = extensionOf(filePath);
+  return ext !== undefined && BINARY_EXTENSIONS.has(ext);
+}
+
+/** MIME type of an image the diff view can preview, or undefined for other files. */
+export function imageMimeType(filePath: string): string | undefined {
+  const ext = extensionOf(filePath);
+  return ext === undefined ? undefined : IMAGE_MIME_TYPES[ext];
+}
+
+/**
+ * A compiled include or exclude pattern. Rules are checked in order and the
+ * last one that matches a path decides, like lines of a `.gitignore`.
+ */
+export interface ReviewRule {
+  pattern: RegExp;
+  /** True for rules that force a path into the review (`!pattern` or an include glob) */
+  include: boolean;
+}
+
+/** User-configured review rules, as read from the extension settings. */
+export interface ReviewRuleSettings {
+  include: string[];
+  exclude: string[];
+  /** Hide files git marks `linguist-generated` or `-diff` unless a glob includes them */
+  honorAttributes: boolean;
+}
+
 /**
- * Returns true if the file should be included in the diff review.
- * Filters out binary and non-text file types by extension.
+ * Build the rule list for a repository: excludes from the settings, then the
+ * lines of its `.diffreviewerignore`, then includes from the settings — so an
+ * include glob always wins and the ignore file can override excluded paths.
  */
-export function isReviewable(filePath: string): boolean {
-  const ext = filePath.split('.').pop()?.toLowerCase();
-  if (!ext) return true;
-  return !NON_REVIEWABLE_EXTENSIONS.has(ext);
+export function compileReviewRules(
+  settings: Pick<ReviewRuleSettings, 'include' | 'exclude'>,
+  ignoreFile = '',
+): ReviewRule[] {
+  const fromSettings = (globs: string[], include: boolean) =>
+    globs.filter((g) => g.trim()).map((g) => ({ pattern: globToRegExp(g.trim()), include }));
+  return [
+    ...fromSettings(settings.exclude, false),
+    ...parseIgnoreFile(ignoreFile),
+    ...fromSettings(settings.include, true),
+  ];
+}
+
+/**
+ * Parse `.gitignore`-style lines: blank lines and `#` comments are skipped, a
+ * leading `!` re-includes matching paths and `\` escapes a leading `!` or `#`.
+ */
+export function parseIgnoreFile(content: string): ReviewRule[] {
+  return content.split(/\r?\n/).flatMap((raw) => {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) {
+      return [];
+    }
+    const include = line.startsWith('!');
+    if (include) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\')) {
+      line = line.slice(1);
+    }
+    return line ? [{ pattern: globToRegExp(line), include }] : [];
+  });
+}
+
+/**
+ * Decide a path by the review rules: 'include' or 'exclude' from the last
+ * matching rule, or undefined when no rule matches and defaults apply.
+ */
+export function matchReviewRules(
+  filePath: string,
+  rules: ReviewRule[],
+): 'include' | 'exclude' | undefined {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].pattern.test(filePath)) {
+      return rules[i].include ? 'include' : 'exclude';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert a glob to a regular expression over repository-relative paths,
+ * following `.gitignore` conventions: a pattern without a slash matches at any
+ * depth, a leading slash anchors it to the root, and a pattern that names a
+ * directory covers everything beneath it. Supports `*`, `**`, `?`, `[...]`
+ * and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.endsWith('/') ? glob.slice(0, -1) : glob;
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1);
+  }
+
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      const atStart = i === 0 || pattern[i - 1] === '/';
+      const atEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+      i++;
+      if (atStart && atEnd) {
+        // "**/" matches zero or more directories; a trailing "**" anything below
+        if (pattern[i + 1] === '/') {
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end < 0) {
+        source += '\\[';
+        continue;
+      }
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? '^' + body.slice(1) : body}]`;
+      i = end;
+    } else if (ch === '{') {
+      source += '(?:';
+      braces++;
+    } else if (ch === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (ch === ',' && braces > 0) {
+      source += '|';
+    } else if (ch === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  return new RegExp(`${prefix}${source}(?:/.*)?$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
 }
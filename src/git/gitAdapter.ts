@@ -1,12 +1,68 @@
-import { execFile } from 'child_process';
-import { readFile, unlink, writeFile } from 'fs/promises';
+import { execFile, spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { chmod, mkdtemp, readFile, rm, stat, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
 import { join } from 'path';
-import { DiffFile, DiffHunk } from '../types';
-import { parseDiff, splitHunks, computeHunkIds } from './diffParser';
-import { isReviewable } from './fileFilter';
+import {
+  BinaryPreview,
+  BinarySide,
+  DiffFile,
+  DiffHunk,
+  HunkGranularity,
+  IgnoreWhitespace,
+  IndexEntry,
+  MetaRestore,
+  RepoOperation,
+  RepoState,
+  ReviewMode,
+  UnmergedEntry,
+} from '../types';
+import {
+  buildCombinedPatch,
+  buildMetaHunks,
+  buildPatch,
+  DiffStreamParser,
+  parseDiff,
+  splitHunks,
+  computeHunkIds,
+  changedLineNumbers,
+  getFilePath,
+  isNullObject,
+  mergeCommittedHunks,
+  overlapsConflict,
+  parseConflicts,
+} from './diffParser';
+import {
+  compileReviewRules,
+  imageMimeType,
+  isBinaryPath,
+  matchReviewRules,
+  ReviewRuleSettings,
+} from './fileFilter';
+
+/** Per-repository file of `.gitignore`-style patterns for files to leave out of the review. */
+export const REVIEW_IGNORE_FILE = '.diffreviewerignore';
+
+/** Images larger than this are described by size and hash only, not previewed. */
+const MAX_IMAGE_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+/** Git treats a file as binary when its first 8000 bytes contain a NUL byte. */
+const BINARY_SNIFF_BYTES = 8000;
 
 export class GitAdapter {
   private repoRoot: string | undefined;
+  private gitDir: string | undefined;
+  private baseRef = 'HEAD';
+  private mode: ReviewMode = 'all';
+  private reviewRules: ReviewRuleSettings = { include: [], exclude: [], honorAttributes: true };
+  private granularity: HunkGranularity = 'change';
+  /** Context lines that may separate groups merged in 'nearby' granularity */
+  private mergeContext = 0;
+  private ignoreWhitespace: IgnoreWhitespace = 'none';
+  private maxOutputSize = 10 * 1024 * 1024;
+  private maxFileDiffSize = 1024 * 1024;
+  /** Files over the size limit the user opened anyway; their diffs are read in full */
+  private largeFilesOpened = new Set<string>();
 
   constructor(private workspaceRoot: string) {}
 
@@ -15,8 +71,11 @@ export class GitAdapter {
    * when the workspace folder may differ from the git root (e.g. monorepos).
    */
   async init(): Promise<void> {
-    const toplevel = await this.exec(['rev-parse', '--show-toplevel']);
+    const [toplevel, gitDir] = (
+      await this.exec(['rev-parse', '--show-toplevel', '--absolute-git-dir'])
+    ).split('\n');
     this.repoRoot = toplevel.trim();
+    this.gitDir = gitDir.trim();
   }
 
   /** Return the resolved git repo root (falls back to workspaceRoot). */
@@ -25,50 +84,497 @@ export class GitAdapter {
   }
 
   /**
-   * Get the parsed diff of all uncommitted changes (staged + unstaged vs HEAD),
-   * including untracked files as synthetic add-only diffs.
+   * Return the repository's git directory, which for submodules and worktrees
+   * lies outside the working tree.
+   */
+  getGitDir(): string {
+    return this.gitDir ?? join(this.getRepoRoot(), '.git');
+  }
+
+  /**
+   * Read the checked-out branch and any operation in progress from the files
+   * git keeps in its directory while a rebase, merge, etc. is paused.
+   */
+  async getRepoState(): Promise<RepoState> {
+    const gitDir = this.getGitDir();
+    const exists = (name: string) =>
+      stat(join(gitDir, name)).then(
+        () => true,
+        () => false,
+      );
+    const markers: [string, RepoOperation][] = [
+      ['rebase-merge', 'rebase'],
+      ['rebase-apply/applying', 'am'],
+      ['rebase-apply', 'rebase'],
+      ['MERGE_HEAD', 'merge'],
+      ['CHERRY_PICK_HEAD', 'cherry-pick'],
+      ['REVERT_HEAD', 'revert'],
+      ['BISECT_LOG', 'bisect'],
+    ];
+    const present = await Promise.all(markers.map(([name]) => exists(name)));
+    const marker = markers.find((_, i) => present[i]);
+    const operation = marker?.[1];
+
+    let branch: string | undefined;
+    if (operation === 'rebase') {
+      // HEAD is detached while rebasing; the branch being rebased is recorded separately
+      const stateDir = marker![0];
+      const headName = await readFile(join(gitDir, stateDir, 'head-name'), 'utf-8').catch(() => '');
+      const match = /^refs\/heads\/(.+)$/.exec(headName.trim());
+      branch = match?.[1];
+    } else {
+      try {
+        branch = (await this.exec(['symbolic-ref', '--quiet', '--short', 'HEAD'])).trim();
+      } catch {
+        // Detached HEAD
+      }
+    }
+    return { branch, operation };
+  }
+
+  /** Return the ref that diffs are computed against ("HEAD" by default). */
+  getBaseRef(): string {
+    return this.baseRef;
+  }
+
+  /**
+   * Review against a different base (branch, tag or commit). Changes already
+   * committed between the base and HEAD are reported as read-only hunks.
+   */
+  setBaseRef(ref: string): void {
+    this.baseRef = ref;
+  }
+
+  /** Return which changes are being reviewed (all, staged only, or unstaged only). */
+  getMode(): ReviewMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch between reviewing all changes, the index only, or the working tree only.
+   * The base ref only applies to the all and staged modes.
+   */
+  setMode(mode: ReviewMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Configure which files are reviewed. The globs are combined with the
+   * repository's .diffreviewerignore, which is re-read on every diff.
+   */
+  setReviewRules(rules: ReviewRuleSettings): void {
+    this.reviewRules = rules;
+  }
+
+  /**
+   * Review one card per group of changed lines ('change'), per run of groups
+   * at most `mergeContext` context lines apart ('nearby') or per git hunk ('hunk').
+   */
+  setHunkGranularity(granularity: HunkGranularity, mergeContext = 0): void {
+    this.granularity = granularity;
+    this.mergeContext = mergeContext;
+  }
+
+  /** Flag hunks that only change whitespace, as judged by the given mode. */
+  setIgnoreWhitespace(mode: IgnoreWhitespace): void {
+    this.ignoreWhitespace = mode;
+  }
+
+  /** Largest git output accepted, in bytes; bigger diffs fail instead of exhausting memory. */
+  setMaxOutputSize(bytes: number): void {
+    this.maxOutputSize = bytes;
+  }
+
+  /** Diffs of a single file larger than this, in bytes, are collapsed until opened. */
+  setMaxFileDiffSize(bytes: number): void {
+    this.maxFileDiffSize = bytes;
+  }
+
+  /** Read the diff of a file that was too large in full from now on, however large. */
+  openLargeFile(filePath: string): void {
+    this.largeFilesOpened.add(filePath);
+  }
+
+  /**
+   * Resolve a ref to a full commit SHA, throwing if it doesn't name a commit.
+   */
+  async resolveCommit(ref: string): Promise<string> {
+    const sha = await this.exec(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`]);
+    return sha.trim();
+  }
+
+  /**
+   * Whether HEAD points at a commit. It doesn't in a freshly initialised
+   * repository, whose branch is "unborn" until the first commit.
+   */
+  async hasCommits(): Promise<boolean> {
+    try {
+      await this.exec(['rev-parse', '--verify', '--quiet', 'HEAD']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The tree HEAD diffs are computed against: HEAD itself, or the empty tree
+   * while HEAD is unborn so that every file shows up as added.
+   */
+  private async resolveHead(): Promise<string> {
+    if (await this.hasCommits()) {
+      return 'HEAD';
+    }
+    // Hash rather than hard-code the empty tree so SHA-256 repositories work too
+    const emptyTree = await this.execStdin(['hash-object', '-t', 'tree', '--stdin'], '');
+    return emptyTree.trim();
+  }
+
+  /**
+   * git's all-zeros object name for "no content", as long as the repository's
+   * object names (SHA-1 or SHA-256).
+   */
+  async nullObject(): Promise<string> {
+    const emptyBlob = await this.execStdin(['hash-object', '--stdin'], '');
+    return '0'.repeat(emptyBlob.trim().length);
+  }
+
+  /**
+   * Find the best common ancestor of HEAD and the given ref.
+   */
+  async getMergeBase(ref: string): Promise<string> {
+    const sha = await this.exec(['merge-base', 'HEAD', ref]);
+    return sha.trim();
+  }
+
+  /**
+   * Paths of the submodules declared in `.gitmodules`, relative to the repository root.
+   */
+  async getSubmodulePaths(): Promise<string[]> {
+    try {
+      const raw = await this.exec([
+        'config',
+        '-z',
+        '--file',
+        '.gitmodules',
+        '--get-regexp',
+        '^submodule\\..*\\.path$',
+      ]);
+      // "submodule.<name>.path\n<path>\0" per submodule
+      return raw
+        .split('\0')
+        .filter((entry) => entry.includes('\n'))
+        .map((entry) => entry.slice(entry.indexOf('\n') + 1));
+    } catch {
+      // No .gitmodules, or no submodules in it
+      return [];
+    }
+  }
+
+  /**
+   * List local branches, remote branches and tags as short ref names.
    */
-  async getDiff(): Promise<DiffFile[]> {
-    const [raw, untrackedFiles] = await Promise.all([
-      this.exec(['diff', 'HEAD']),
-      this.exec(['ls-files', '--others', '--exclude-standard']),
+  async listRefs(): Promise<{ name: string; kind: 'branch' | 'remote' | 'tag' }[]> {
+    const raw = await this.exec([
+      'for-each-ref',
+      '--format=%(refname)',
+      'refs/heads',
+      'refs/remotes',
+      'refs/tags',
     ]);
+    const kinds = [
+      { prefix: 'refs/heads/', kind: 'branch' as const },
+      { prefix: 'refs/remotes/', kind: 'remote' as const },
+      { prefix: 'refs/tags/', kind: 'tag' as const },
+    ];
+    return raw
+      .split('\n')
+      .map((r) => r.trim())
+      .filter((r) => r.length > 0 && !r.endsWith('/HEAD'))
+      .flatMap((r) => {
+        const match = kinds.find((k) => r.startsWith(k.prefix));
+        return match ? [{ name: r.slice(match.prefix.length), kind: match.kind }] : [];
+      });
+  }
 
-    const tracked = raw.trim()
-      ? parseDiff(raw)
-          .filter((f) => !f.isBinary && isReviewable(f.newPath || f.oldPath))
-          .map((f) => {
-            const hunks = splitHunks(f.hunks);
-            const filePath = f.newPath || f.oldPath;
-            const ids = computeHunkIds(filePath, hunks);
-            hunks.forEach((h, i) => {
-              h.id = ids[i];
-            });
-            return { ...f, hunks };
-          })
-      : [];
+  /**
+   * Get the parsed diff for the current mode (by default all uncommitted changes,
+   * staged + unstaged vs HEAD), including untracked files as synthetic add-only
+   * diffs unless only staged changes are reviewed. When a base ref other than
+   * HEAD is set, changes committed since the base are included as read-only hunks.
+   * In a repository without commits every file is diffed against the empty tree.
+   * Files hidden by the review rules are left out. Pass a pathspec to diff
+   * only those paths (files or directories), e.g. the ones just changed on disk.
+   *
+   * The diff is streamed, so its size is unbounded; a file whose diff is over
+   * the per-file limit comes back with `tooLarge` set and no hunks. `onFile`
+   * is called with tracked files as they are parsed, before the review rules
+   * of `.gitattributes` are applied, to show progress on large diffs.
+   */
+  async getDiff(pathspec: string[] = [], onFile?: (file: DiffFile) => void): Promise<DiffFile[]> {
+    const onTrackedFile = onFile && (await this.progressFilter(onFile));
+    const [tracked, untrackedFiles] = await Promise.all([
+      this.getTrackedDiff(pathspec, onTrackedFile).then((files) =>
+        this.addConflicts(files, pathspec),
+      ),
+      this.mode === 'staged'
+        ? Promise.resolve('')
+        : this.exec(['ls-files', '--others', '--exclude-standard', '--', ...pathspec]),
+    ]);
+    const untrackedPaths = untrackedFiles
+      .split('\n')
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0);
 
+    const reviewable = await this.getReviewablePaths([
+      ...tracked.map((f) => getFilePath(f)),
+      ...untrackedPaths,
+    ]);
     const untracked = await Promise.all(
-      untrackedFiles
-        .split('\n')
-        .map((p) => p.trim())
-        .filter((p) => p.length > 0 && isReviewable(p))
-        .map((p) => this.buildUntrackedDiffFile(p)),
+      untrackedPaths.filter((p) => reviewable.has(p)).map((p) => this.buildUntrackedDiffFile(p)),
     );
 
-    return [...tracked, ...untracked.filter((f): f is DiffFile => f !== null)];
+    return this.withRepoRoot([
+      ...tracked.filter((f) => reviewable.has(getFilePath(f))),
+      ...untracked.filter((f): f is DiffFile => f !== null),
+    ]);
+  }
+
+  /**
+   * Wrap a progress callback so it only sees files the review globs don't exclude.
+   */
+  private async progressFilter(
+    onFile: (file: DiffFile) => void,
+  ): Promise<(file: DiffFile) => void> {
+    const rules = compileReviewRules(this.reviewRules, await this.readIgnoreFile());
+    return (file) => {
+      if (matchReviewRules(getFilePath(file), rules) !== 'exclude') {
+        onFile({ ...file, repoRoot: this.getRepoRoot() });
+      }
+    };
+  }
+
+  private async readIgnoreFile(): Promise<string> {
+    try {
+      return await readFile(join(this.getRepoRoot(), REVIEW_IGNORE_FILE), 'utf-8');
+    } catch {
+      // No ignore file in this repository
+      return '';
+    }
+  }
+
+  /**
+   * Apply the review rules: the last matching include or exclude glob decides.
+   * Paths no rule matches are reviewed unless git marks them as generated
+   * (`linguist-generated`) or not to be diffed (`-diff`).
+   */
+  private async getReviewablePaths(paths: string[]): Promise<Set<string>> {
+    const rules = compileReviewRules(this.reviewRules, await this.readIgnoreFile());
+
+    const reviewable = new Set<string>();
+    const undecided: string[] = [];
+    for (const path of paths) {
+      const verdict = matchReviewRules(path, rules);
+      if (verdict === 'include') {
+        reviewable.add(path);
+      } else if (verdict === undefined) {
+        undecided.push(path);
+      }
+    }
+
+    const hidden = this.reviewRules.honorAttributes
+      ? await this.getHiddenByAttributes(undecided)
+      : new Set<string>();
+    undecided.filter((p) => !hidden.has(p)).forEach((p) => reviewable.add(p));
+    return reviewable;
+  }
+
+  /**
+   * Paths whose git attributes mark them as generated or not to be diffed.
+   * `-diff` coming from the `binary` macro doesn't count, since binary files
+   * are reviewed as such.
+   */
+  private async getHiddenByAttributes(paths: string[]): Promise<Set<string>> {
+    if (paths.length === 0) {
+      return new Set();
+    }
+    const raw = await this.execStdin(
+      ['check-attr', '-z', '--stdin', 'linguist-generated', 'diff', 'binary'],
+      paths.map((p) => p + '\0').join(''),
+    );
+    // "<path>\0<attribute>\0<value>\0" for every path and attribute
+    const fields = raw.split('\0');
+    const attributes = new Map<string, Record<string, string>>();
+    for (let i = 0; i + 2 < fields.length; i += 3) {
+      const [path, name, value] = fields.slice(i, i + 3);
+      attributes.set(path, { ...attributes.get(path), [name]: value });
+    }
+
+    const isSet = (value: string | undefined) => value === 'set' || value === 'true';
+    return new Set(
+      paths.filter((p) => {
+        const attrs = attributes.get(p) ?? {};
+        return (
+          isSet(attrs['linguist-generated']) ||
+          (attrs['diff'] === 'unset' && !isSet(attrs['binary']))
+        );
+      }),
+    );
+  }
+
+  /**
+   * Diff tracked files for the current mode (and, if set, against the base ref),
+   * returning reviewable files with split hunks and stable IDs. Without a base,
+   * `onFile` sees each file as soon as it is parsed. When ignoring whitespace,
+   * hunks that only change whitespace are flagged afterwards.
+   */
+  private async getTrackedDiff(
+    pathspec: string[],
+    onFile?: (file: DiffFile) => void,
+  ): Promise<DiffFile[]> {
+    const head = this.mode === 'unstaged' ? 'HEAD' : await this.resolveHead();
+    const diffArgs = (ref?: string) => {
+      // Pin the submodule format so a user's diff.submodule setting can't change it;
+      // --find-copies detects renames as well as copies
+      const options = ['--submodule=short', '--find-copies'];
+      const cached = this.mode === 'staged' ? ['--cached'] : [];
+      const against = this.mode === 'unstaged' ? [] : [ref ?? head];
+      return ['diff', ...options, ...cached, ...against];
+    };
+    const diffAgainst = async (ref?: string, onParsed?: (file: DiffFile) => void) => {
+      const parser = new DiffStreamParser(this.maxFileDiffSize, (p) =>
+        this.largeFilesOpened.has(p),
+      );
+      const files: DiffFile[] = [];
+      const collect = (parsed: DiffFile[]) => {
+        files.push(...parsed);
+        parsed.forEach((f) => onParsed?.(f));
+      };
+      await this.execStream([...diffArgs(ref), '--', ...pathspec], (chunk) =>
+        collect(parser.push(chunk)),
+      );
+      collect(parser.end());
+      return files;
+    };
+
+    if (this.baseRef === 'HEAD' || this.mode === 'unstaged') {
+      const files = await diffAgainst(undefined, (f) => {
+        f.hunks = this.splitFileHunks(f);
+        withHunkIds(f);
+        onFile?.(f);
+      });
+      await this.markWhitespaceOnly(files, [...diffArgs(), '--', ...pathspec]);
+      return files;
+    }
+
+    const working = await diffAgainst();
+    const base = await diffAgainst(this.baseRef);
+    const workingByPath = new Map(working.map((f) => [getFilePath(f), f]));
+
+    const merged = base.map((b) => {
+      const path = getFilePath(b);
+      const w = workingByPath.get(path);
+      workingByPath.delete(path);
+      if (b.tooLarge || w?.tooLarge) {
+        return { ...(w ?? b), hunks: [], tooLarge: Math.max(b.tooLarge ?? 0, w?.tooLarge ?? 0) };
+      }
+      const hunks = mergeCommittedHunks(this.splitFileHunks(b), w ? this.splitFileHunks(w) : []);
+      // Patches for actionable hunks must be built against HEAD, so prefer its header
+      return withHunkIds({ ...(w ?? b), hunks });
+    });
+
+    // Files changed in the working tree but identical to the base (e.g. reverted commits)
+    const rest = [...workingByPath.values()].map((f) =>
+      withHunkIds({ ...f, hunks: this.splitFileHunks(f) }),
+    );
+
+    const files = [...merged, ...rest];
+    // Actionable hunks come from the diff against HEAD, so that is the one to compare with
+    await this.markWhitespaceOnly(files, [...diffArgs(), '--', ...pathspec]);
+    return files;
+  }
+
+  /**
+   * Flag the line hunks none of whose lines appear in the whitespace-insensitive
+   * version of the diff. The hunks themselves still come from the real diff, so
+   * rejecting or staging one applies its exact whitespace.
+   */
+  private async markWhitespaceOnly(files: DiffFile[], diffArgs: string[]): Promise<void> {
+    if (this.ignoreWhitespace === 'none') {
+      return;
+    }
+    const flag = this.ignoreWhitespace === 'all' ? '--ignore-all-space' : '--ignore-space-change';
+    const [command, ...rest] = diffArgs;
+    // path → lines still changed when whitespace is ignored; undefined if too large to tell
+    const significant = new Map<string, { removed: Set<number>; added: Set<number> } | undefined>();
+    const parser = new DiffStreamParser(this.maxFileDiffSize);
+    const collect = (parsed: DiffFile[]) => {
+      for (const file of parsed) {
+        const lines = { removed: new Set<number>(), added: new Set<number>() };
+        for (const hunk of file.hunks) {
+          const { removed, added } = changedLineNumbers(hunk);
+          removed.forEach((n) => lines.removed.add(n));
+          added.forEach((n) => lines.added.add(n));
+        }
+        significant.set(getFilePath(file), file.tooLarge ? undefined : lines);
+      }
+    };
+    await this.execStream([command, flag, '--unified=0', ...rest], (chunk) =>
+      collect(parser.push(chunk)),
+    );
+    collect(parser.end());
+
+    for (const file of files) {
+      const path = getFilePath(file);
+      if (file.isBinary || (significant.has(path) && !significant.get(path))) {
+        continue;
+      }
+      const lines = significant.get(path);
+      for (const hunk of file.hunks.filter((h) => !h.meta && !h.readOnly)) {
+        const { removed, added } = changedLineNumbers(hunk);
+        hunk.whitespaceOnly =
+          !removed.some((n) => lines?.removed.has(n)) && !added.some((n) => lines?.added.has(n));
+      }
+    }
   }
 
   /**
    * Synthesise a DiffFile for an untracked file by reading its content and
    * treating every line as an addition — mirroring what `git diff --no-index
-   * /dev/null <file>` would produce.
+   * /dev/null <file>` would produce. Binary files, recognised by extension or
+   * content the way git does, get a single whole-file hunk instead, and text
+   * files over the per-file size limit are not read until opened.
    */
   private async buildUntrackedDiffFile(filePath: string): Promise<DiffFile | null> {
     try {
       const absPath = join(this.getRepoRoot(), filePath);
-      const raw = await readFile(absPath, 'utf-8');
-      const lines = raw.split('\n');
+      const binaryByName = isBinaryPath(filePath);
+      const { size } = await stat(absPath);
+      if (!binaryByName && size > this.maxFileDiffSize && !this.largeFilesOpened.has(filePath)) {
+        return {
+          oldPath: '/dev/null',
+          newPath: filePath,
+          hunks: [],
+          isBinary: false,
+          isUntracked: true,
+          diffHeader: ['--- /dev/null', `+++ b/${filePath}`],
+          tooLarge: size,
+        };
+      }
+      const buffer = binaryByName ? undefined : await readFile(absPath);
+      if (!buffer || buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+        const sha = (await this.exec(['hash-object', '--', filePath])).trim();
+        const file: DiffFile = {
+          oldPath: '/dev/null',
+          newPath: filePath,
+          hunks: [],
+          isBinary: true,
+          isUntracked: true,
+          diffHeader: [],
+          newBlob: sha,
+        };
+        return withHunkIds({ ...file, hunks: buildMetaHunks(file) });
+      }
+      const lines = buffer.toString('utf-8').split('\n');
 
       // Drop the trailing empty string that results from a final newline
       if (lines.length > 0 && lines[lines.length - 1] === '') {
@@ -78,10 +584,8 @@ export class GitAdapter {
       const header = `@@ -0,0 +1,${lines.length} @@`;
       const rawLines = [header, ...lines.map((l) => `+${l}`)];
 
-      const hunk: import('../types').DiffHunk = {
-        // oldStart must be 1 (not 0) so splitHunks computes patchOldStart = 1-1 = 0,
-        // producing the correct "@@ -0,0 +1,N @@" header for a new file.
-        oldStart: 1,
+      const hunk: DiffHunk = {
+        oldStart: 0,
         oldCount: 0,
         newStart: 1,
         newCount: lines.length,
@@ -90,20 +594,14 @@ export class GitAdapter {
         rawLines,
       };
 
-      const hunks = splitHunks([hunk]);
-      const ids = computeHunkIds(filePath, hunks);
-      hunks.forEach((h, i) => {
-        h.id = ids[i];
-      });
-
-      return {
+      return withHunkIds({
         oldPath: '/dev/null',
         newPath: filePath,
-        hunks,
+        hunks: this.splitLineHunks([hunk]),
         isBinary: false,
         isUntracked: true,
         diffHeader: ['--- /dev/null', `+++ b/${filePath}`],
-      };
+      });
     } catch {
       // File may have been deleted between ls-files and read — skip silently
       return null;
@@ -111,32 +609,120 @@ export class GitAdapter {
   }
 
   /**
-   * Get raw diff for a single file.
-   * Falls back to buildUntrackedDiffFile when the file is untracked (not in HEAD).
-   */
-  async getFileDiff(filePath: string): Promise<DiffFile[]> {
-    const raw = await this.exec(['diff', 'HEAD', '--', filePath]);
-    if (!raw.trim()) {
-      // Not a tracked change — re-build as untracked if the file still exists
-      const untracked = await this.buildUntrackedDiffFile(filePath);
-      return untracked ? [untracked] : [];
-    }
-    return parseDiff(raw).map((f) => {
-      const hunks = splitHunks(f.hunks);
-      const fp = f.newPath || f.oldPath;
-      const ids = computeHunkIds(fp, hunks);
-      hunks.forEach((h, i) => {
-        h.id = ids[i];
+   * Attach the conflict regions of files with unresolved merge conflicts,
+   * leaving out the hunks that overlap them, and add the conflicted files the
+   * diff lacks: in unstaged mode git shows them as combined diffs, which aren't
+   * parsed. Conflicts are in the working tree, so staged mode has none.
+   */
+  private async addConflicts(files: DiffFile[], pathspec: string[]): Promise<DiffFile[]> {
+    if (this.mode === 'staged') {
+      return files;
+    }
+    for (const filePath of await this.getConflictedPaths(pathspec)) {
+      let content: string;
+      try {
+        content = await readFile(join(this.getRepoRoot(), filePath), 'utf-8');
+      } catch {
+        // Deleted on one side: there are no markers to resolve
+        continue;
+      }
+      const conflicts = parseConflicts(content.split('\n'));
+      if (conflicts.length === 0) {
+        continue;
+      }
+      const file = files.find((f) => getFilePath(f) === filePath);
+      if (file) {
+        file.conflicts = conflicts;
+        file.hunks = file.hunks.filter((h) => !overlapsConflict(h, conflicts));
+      } else {
+        files.push({
+          oldPath: filePath,
+          newPath: filePath,
+          hunks: [],
+          isBinary: false,
+          diffHeader: [`--- a/${filePath}`, `+++ b/${filePath}`],
+          conflicts,
+        });
+      }
+    }
+    return files;
+  }
+
+  /** Paths with unmerged entries in the index, i.e. unresolved merge conflicts. */
+  async getConflictedPaths(pathspec: string[] = []): Promise<string[]> {
+    const entries = await this.getUnmergedEntries(pathspec);
+    return [...new Set(entries.map((e) => e.path))];
+  }
+
+  /**
+   * Mark a conflicted file resolved by staging it as it is in the working
+   * tree. Returns its unmerged index entries, for markUnresolved.
+   */
+  async markResolved(filePath: string): Promise<UnmergedEntry[]> {
+    const entries = await this.getUnmergedEntries([filePath]);
+    await this.exec(['add', '--', filePath]);
+    return entries.map(({ mode, sha, stage }) => ({ mode, sha, stage }));
+  }
+
+  /** Put back the unmerged index entries of a file that markResolved replaced. */
+  async markUnresolved(filePath: string, entries: UnmergedEntry[]): Promise<void> {
+    // A zero object name removes the resolved entry before the stages go back
+    const zero = '0'.repeat(entries[0]?.sha.length ?? 40);
+    const info = [
+      `0 ${zero}\t${filePath}`,
+      ...entries.map((e) => `${e.mode} ${e.sha} ${e.stage}\t${filePath}`),
+    ];
+    await this.execStdin(['update-index', '--index-info'], info.join('\n') + '\n');
+  }
+
+  private async getUnmergedEntries(
+    pathspec: string[],
+  ): Promise<(UnmergedEntry & { path: string })[]> {
+    // "<mode> <sha> <stage>\t<path>", NUL-terminated
+    const output = await this.exec(['ls-files', '--unmerged', '-z', '--', ...pathspec]);
+    return output
+      .split('\0')
+      .filter((record) => record.length > 0)
+      .map((record) => {
+        const tab = record.indexOf('\t');
+        const [mode, sha, stage] = record.slice(0, tab).split(' ');
+        return { mode, sha, stage: Number(stage), path: record.slice(tab + 1) };
       });
-      return { ...f, hunks };
-    });
+  }
+
+  /**
+   * Get raw diff for a single file.
+   * Falls back to buildUntrackedDiffFile when the file is untracked (not in the index).
+   * Pass the rename or copy source as `sourcePath` so git can still detect it.
+   */
+  async getFileDiff(filePath: string, sourcePath?: string): Promise<DiffFile[]> {
+    const pathspec = sourcePath && sourcePath !== filePath ? [filePath, sourcePath] : [filePath];
+    const tracked = (await this.addConflicts(await this.getTrackedDiff(pathspec), pathspec)).filter(
+      (f) => getFilePath(f) === filePath,
+    );
+    if (tracked.length === 0 && this.mode !== 'staged') {
+      // Not a tracked change — re-build as untracked if the file is untracked
+      const others = await this.exec([
+        'ls-files',
+        '--others',
+        '--exclude-standard',
+        '--',
+        filePath,
+      ]);
+      const untracked = others.trim() ? await this.buildUntrackedDiffFile(filePath) : null;
+      return this.withRepoRoot(untracked ? [untracked] : []);
+    }
+    return this.withRepoRoot(tracked);
   }
 
   /**
    * Reject a hunk from an untracked file by directly removing those lines from disk.
    * Deletes the file if it becomes empty.
    */
-  async rejectUntrackedHunk(filePath: string, hunk: DiffHunk): Promise<void> {
+  async rejectUntrackedHunk(
+    filePath: string,
+    hunk: Pick<DiffHunk, 'newStart' | 'newCount'>,
+  ): Promise<void> {
     const absPath = join(this.getRepoRoot(), filePath);
     const raw = await readFile(absPath, 'utf-8');
 
@@ -186,16 +772,464 @@ export class GitAdapter {
 
   /**
    * Reverse-apply a patch (reject a hunk). Patch is provided as a string
-   * representing a valid unified diff for a single hunk.
+   * representing a valid unified diff for a single hunk. With `cached`, the
+   * patch is reversed in the index only (unstaging the hunk).
    */
-  async applyReverse(patch: string): Promise<void> {
-    await this.execStdin(['apply', '-R', '--unidiff-zero', '-'], patch);
+  async applyReverse(patch: string, cached = false): Promise<void> {
+    const target = cached ? ['--cached'] : [];
+    await this.execStdin(['apply', ...target, '-R', '--unidiff-zero', '-'], patch);
   }
 
   /**
-   * Read the current working-tree content of a file, split into lines.
+   * Stage a single hunk in the index. The hunk is looked up by ID in the
+   * index→worktree diff so the patch's line numbers are relative to the index
+   * (other hunks of the file may already be staged). Untracked files are staged
+   * from their synthetic new-file patch, binary files as a whole. Already-staged
+   * and committed hunks are left alone, as are renames and copies, which git
+   * only detects once they are staged. Throws when the hunk can't be found in
+   * either diff, e.g. a merged hunk of which only a part is staged.
+   */
+  async stageHunk(file: DiffFile, hunkId: string): Promise<void> {
+    const filePath = getFilePath(file);
+    if (file.isUntracked && file.isBinary) {
+      await this.exec(['add', '--', filePath]);
+      return;
+    }
+    const unstaged = await this.findHunk(['diff'], filePath, hunkId);
+    if (unstaged?.hunk.meta === 'binary') {
+      await this.exec(['add', '--all', '--', filePath]);
+      return;
+    }
+    if (unstaged?.hunk.meta === 'mode') {
+      await this.setIndexMode(filePath, unstaged.file.newMode!);
+      return;
+    }
+    if (unstaged?.hunk.meta === 'delete') {
+      await this.applyForward(buildCombinedPatch(unstaged.file, [unstaged.hunk]), true);
+      return;
+    }
+    if (unstaged && !unstaged.hunk.meta) {
+      await this.applyForward(buildPatch(unstaged.file, unstaged.hunk), true);
+      return;
+    }
+    const hunk = file.hunks.find((h) => h.id === hunkId);
+    if (file.isUntracked && hunk) {
+      await this.applyForward(buildPatch(file, hunk), true);
+      return;
+    }
+    if (hunk?.readOnly || hunk?.meta === 'rename' || hunk?.meta === 'copy') {
+      return;
+    }
+    if (!(await this.findHunk(['diff', '--cached'], filePath, hunkId))) {
+      throw new Error(
+        `This change to ${filePath} is split differently in the index, so it can't be staged on its own. Stage it with git instead.`,
+      );
+    }
+  }
+
+  /**
+   * Remove a single hunk from the index, looking it up by ID in the HEAD→index
+   * diff. Does nothing if the hunk is no longer staged (e.g. it was committed).
+   */
+  async unstageHunk(filePath: string, hunkId: string): Promise<void> {
+    const staged = await this.findHunk(['diff', '--cached'], filePath, hunkId);
+    if (staged?.hunk.meta === 'mode') {
+      await this.setIndexMode(filePath, staged.file.oldMode!);
+    } else if (staged?.hunk.meta === 'delete') {
+      await this.applyReverse(buildCombinedPatch(staged.file, [staged.hunk]), true);
+    } else if (staged?.hunk.meta === 'binary') {
+      await this.exec(['reset', '--quiet', '--', filePath]);
+    } else if (staged && !staged.hunk.meta) {
+      await this.applyReverse(buildPatch(staged.file, staged.hunk), true);
+    }
+  }
+
+  /**
+   * Reject a rename, copy, mode change or binary change: move the file back,
+   * remove the copy, restore the old mode or the old content — in the index
+   * when reviewing staged changes, in the working tree when reviewing unstaged
+   * ones, otherwise in both. Returns what restoreMeta needs to redo the change.
+   */
+  async revertMeta(file: DiffFile, hunk: DiffHunk): Promise<MetaRestore> {
+    const scope = this.mode;
+    const path = file.newPath;
+
+    if (hunk.meta === 'binary') {
+      return this.revertBinary(file);
+    }
+
+    if (hunk.meta === 'rename') {
+      const from = file.renamedFrom!;
+      if (scope !== 'staged') {
+        await this.exec(['mv', '--', path, from]);
+        return { kind: 'rename', from, to: path, scope };
+      }
+      const entry = await this.getIndexEntry(path);
+      await this.setIndexEntry(path, undefined);
+      await this.exec(['reset', '--quiet', 'HEAD', '--', from]);
+      return { kind: 'rename', from, to: path, scope, entry };
+    }
+
+    if (hunk.meta === 'copy') {
+      const entry = await this.getIndexEntry(path);
+      if (scope === 'staged') {
+        await this.setIndexEntry(path, undefined);
+        return { kind: 'copy', path, scope, entry };
+      }
+      const blob = (await this.exec(['hash-object', '-w', '--', path])).trim();
+      await this.exec(['rm', '--quiet', '--force', '--', path]);
+      return { kind: 'copy', path, scope, entry, blob };
+    }
+
+    await this.applyFileMode(path, file.oldMode!, scope);
+    return { kind: 'mode', path, mode: file.newMode!, scope };
+  }
+
+  /**
+   * Put back the old content of a binary file, or remove it if it was added.
+   * The current content is saved as a blob first so restoreMeta can bring it back.
+   */
+  private async revertBinary(file: DiffFile): Promise<MetaRestore> {
+    const scope = this.mode;
+    const path = getFilePath(file);
+    const entry = await this.getIndexEntry(path);
+    const blob =
+      scope === 'staged' ? undefined : (await this.exec(['hash-object', '-w', '--', path])).trim();
+    const old = isNullObject(file.oldBlob)
+      ? undefined
+      : (await this.exec(['rev-parse', '--verify', `${file.oldBlob}^{blob}`])).trim();
+
+    if (scope !== 'staged') {
+      if (old) {
+        await this.writeBlob(path, old);
+      } else {
+        await rm(join(this.getRepoRoot(), path), { force: true });
+      }
+    }
+    if (scope !== 'unstaged') {
+      await this.setIndexEntry(path, old ? { mode: entry?.mode ?? '100644', sha: old } : undefined);
+    }
+    return { kind: 'binary', path, scope, entry, blob };
+  }
+
+  /**
+   * Reject a file deletion by restoring the file: from HEAD into the index and
+   * working tree, from HEAD into the index only when reviewing staged changes,
+   * or from the index when reviewing unstaged ones. Returns what restoreMeta
+   * needs to delete it again.
+   */
+  async restoreDeletedFile(filePath: string): Promise<MetaRestore> {
+    const scope = this.mode;
+    const entry = await this.getIndexEntry(filePath);
+    if (scope === 'staged') {
+      await this.exec(['reset', '--quiet', 'HEAD', '--', filePath]);
+    } else if (scope === 'unstaged') {
+      await this.exec(['checkout', '--', filePath]);
+    } else {
+      await this.exec(['checkout', 'HEAD', '--', filePath]);
+    }
+    return { kind: 'delete', path: filePath, scope, entry };
+  }
+
+  /**
+   * Redo a rename, copy, mode change, binary change or deletion previously
+   * rejected with revertMeta or restoreDeletedFile.
+   */
+  async restoreMeta(restore: MetaRestore): Promise<void> {
+    if (restore.kind === 'delete') {
+      if (restore.scope !== 'staged') {
+        await rm(join(this.getRepoRoot(), restore.path), { force: true });
+      }
+      if (restore.scope !== 'unstaged') {
+        await this.setIndexEntry(restore.path, restore.entry);
+      }
+      return;
+    }
+
+    if (restore.kind === 'rename') {
+      if (restore.scope !== 'staged') {
+        await this.exec(['mv', '--', restore.from, restore.to]);
+        return;
+      }
+      await this.setIndexEntry(restore.from, undefined);
+      await this.setIndexEntry(restore.to, restore.entry);
+      return;
+    }
+
+    if (restore.kind === 'copy') {
+      if (restore.blob) {
+        await this.writeBlob(restore.path, restore.blob);
+      }
+      await this.setIndexEntry(restore.path, restore.entry);
+      return;
+    }
+
+    if (restore.kind === 'binary') {
+      if (restore.scope !== 'staged' && restore.blob) {
+        await this.writeBlob(restore.path, restore.blob);
+      }
+      if (restore.scope !== 'unstaged') {
+        await this.setIndexEntry(restore.path, restore.entry);
+      }
+      return;
+    }
+
+    await this.applyFileMode(restore.path, restore.mode, restore.scope);
+  }
+
+  /** Overwrite a working tree file with the content of a blob. */
+  private async writeBlob(filePath: string, sha: string): Promise<void> {
+    const content = await this.execBuffer(['cat-file', 'blob', sha]);
+    await writeFile(join(this.getRepoRoot(), filePath), content);
+  }
+
+  /** Apply a file mode to the index and/or working tree, as selected by `scope`. */
+  private async applyFileMode(filePath: string, mode: string, scope: ReviewMode): Promise<void> {
+    if (scope !== 'staged') {
+      const absPath = join(this.getRepoRoot(), filePath);
+      const { mode: current } = await stat(absPath);
+      await chmod(absPath, isExecutableMode(mode) ? current | 0o111 : current & ~0o111);
+    }
+    if (scope !== 'unstaged') {
+      await this.setIndexMode(filePath, mode);
+    }
+  }
+
+  private async setIndexMode(filePath: string, mode: string): Promise<void> {
+    const flag = isExecutableMode(mode) ? '+x' : '-x';
+    await this.exec(['update-index', `--chmod=${flag}`, '--', filePath]);
+  }
+
+  private async getTreeEntry(ref: string, filePath: string): Promise<IndexEntry | undefined> {
+    // "<mode> <type> <sha>\t<path>"
+    const [mode, , sha] = (await this.exec(['ls-tree', ref, '--', filePath])).split(/\s/);
+    return sha ? { mode, sha } : undefined;
+  }
+
+  private async getIndexEntry(filePath: string): Promise<IndexEntry | undefined> {
+    // "<mode> <sha> <stage>\t<path>"
+    const line = (await this.exec(['ls-files', '--stage', '--', filePath])).split('\n')[0];
+    const [mode, sha] = line.split(/\s/);
+    return sha ? { mode, sha } : undefined;
+  }
+
+  /**
+   * Add or replace a path's index entry, or remove it when `entry` is undefined.
+   * `env` can point GIT_INDEX_FILE at another index.
+   */
+  private async setIndexEntry(
+    filePath: string,
+    entry: IndexEntry | undefined,
+    env?: NodeJS.ProcessEnv,
+  ): Promise<void> {
+    if (entry) {
+      await this.exec(
+        ['update-index', '--add', '--cacheinfo', `${entry.mode},${entry.sha},${filePath}`],
+        env,
+      );
+    } else {
+      await this.exec(['update-index', '--force-remove', '--', filePath], env);
+    }
+  }
+
+  /**
+   * A file's hunks at the configured granularity, followed by the synthetic
+   * hunks for its rename, copy, mode change or binary content.
+   */
+  private splitFileHunks(file: DiffFile): DiffHunk[] {
+    if (file.tooLarge) {
+      return [];
+    }
+    return [...this.splitLineHunks(file.hunks), ...buildMetaHunks(file)];
+  }
+
+  private splitLineHunks(hunks: DiffHunk[]): DiffHunk[] {
+    if (this.granularity === 'hunk') {
+      return hunks;
+    }
+    return splitHunks(hunks, this.granularity === 'nearby' ? this.mergeContext : 0);
+  }
+
+  private withRepoRoot(files: DiffFile[]): DiffFile[] {
+    const repoRoot = this.getRepoRoot();
+    files.forEach((f) => {
+      f.repoRoot = repoRoot;
+    });
+    return files;
+  }
+
+  private async findHunk(
+    diffArgs: string[],
+    filePath: string,
+    hunkId: string,
+  ): Promise<{ file: DiffFile; hunk: DiffHunk } | undefined> {
+    const raw = await this.exec([...diffArgs, '--', filePath]);
+    for (const f of parseDiff(raw)) {
+      const file = withHunkIds({ ...f, hunks: this.splitFileHunks(f) });
+      const hunk = file.hunks.find((h) => h.id === hunkId);
+      if (hunk) {
+        return { file, hunk };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Commit exactly the given patches on top of HEAD, leaving the working tree
+   * untouched. The commit is built in a temporary index so unrelated staged
+   * changes are not included; afterwards the committed paths are brought up to
+   * the new HEAD in the real index, keeping whatever else was staged in them.
+   * Without a HEAD the commit is the repository's first, built from an empty
+   * index. `wholeFiles` are committed as they are on the new side of the diff
+   * (binary files can't be patched).
+   */
+  async commitPatches(
+    patches: string[],
+    paths: string[],
+    message: string,
+    wholeFiles: string[] = [],
+  ): Promise<void> {
+    const hasHead = await this.hasCommits();
+    const before = await Promise.all(
+      paths.map(async (filePath) => ({
+        filePath,
+        head: hasHead ? await this.getTreeEntry('HEAD', filePath) : undefined,
+        staged: await this.getIndexEntry(filePath),
+      })),
+    );
+
+    const indexFile = join(tmpdir(), `diff-reviewer-${randomBytes(6).toString('hex')}.index`);
+    const env = { GIT_INDEX_FILE: indexFile };
+    try {
+      await this.exec(['read-tree', ...(hasHead ? ['HEAD'] : ['--empty'])], env);
+      for (const patch of patches) {
+        await this.execStdin(['apply', '--cached', '--unidiff-zero', '-'], patch, env);
+      }
+      for (const filePath of wholeFiles) {
+        if (this.mode === 'staged') {
+          await this.setIndexEntry(filePath, await this.getIndexEntry(filePath), env);
+        } else {
+          await this.exec(['update-index', '--add', '--remove', '--', filePath], env);
+        }
+      }
+      await this.execStdin(['commit', '--quiet', '--file=-'], message, env);
+    } finally {
+      await rm(indexFile, { force: true });
+    }
+
+    // Paths with nothing staged just follow the commit
+    const unstaged = before.filter((b) => sameEntry(b.head, b.staged)).map((b) => b.filePath);
+    if (unstaged.length > 0) {
+      await this.exec(['reset', '--quiet', 'HEAD', '--', ...unstaged]);
+    }
+    for (const { filePath, head, staged } of before) {
+      if (!sameEntry(head, staged)) {
+        await this.mergeStagedEntry(filePath, head, staged);
+      }
+    }
+  }
+
+  /**
+   * Merge what was staged in a file into its newly committed version, so the
+   * index holds the commit plus the staged changes it didn't include. Entries
+   * that don't merge cleanly, or that add or delete the file, are kept as they
+   * were staged.
+   */
+  private async mergeStagedEntry(
+    filePath: string,
+    oldHead: IndexEntry | undefined,
+    staged: IndexEntry | undefined,
+  ): Promise<void> {
+    const newHead = await this.getTreeEntry('HEAD', filePath);
+    if (!oldHead || !staged || !newHead) {
+      return;
+    }
+    const dir = await mkdtemp(join(tmpdir(), 'diff-reviewer-'));
+    const [current, base, other] = ['current', 'base', 'other'].map((name) => join(dir, name));
+    try {
+      await writeFile(current, await this.execBuffer(['cat-file', 'blob', newHead.sha]));
+      await writeFile(base, await this.execBuffer(['cat-file', 'blob', oldHead.sha]));
+      await writeFile(other, await this.execBuffer(['cat-file', 'blob', staged.sha]));
+      // Fails on conflicts and binary content, leaving the staged entry alone
+      await this.exec(['merge-file', '--quiet', current, base, other]);
+      const sha = (await this.exec(['hash-object', '-w', '--no-filters', '--', current])).trim();
+      const mode = staged.mode === oldHead.mode ? newHead.mode : staged.mode;
+      await this.setIndexEntry(filePath, { mode, sha });
+    } catch {
+      // Keep the staged content; `git diff --cached` shows how it differs from the commit
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the last content of a deleted file from the old side of the diff —
+   * the index when reviewing unstaged changes, the base ref otherwise.
+   */
+  async getDeletedFileContent(filePath: string): Promise<string[]> {
+    const source = this.mode === 'unstaged' ? '' : this.baseRef;
+    const content = await this.exec(['show', `${source}:${filePath}`]);
+    return content.split('\n');
+  }
+
+  /**
+   * Describe both sides of a binary file for the diff view: size and object
+   * name, plus the content as a data URI for images small enough to preview.
+   * The old side comes from the base ref (the index in unstaged mode), the new
+   * side from the working tree (the index in staged mode).
+   */
+  async getBinaryPreview(file: DiffFile): Promise<BinaryPreview> {
+    const filePath = getFilePath(file);
+    const mime = imageMimeType(filePath);
+    const preview = (size: number, read: () => Promise<Buffer>) =>
+      mime && size <= MAX_IMAGE_PREVIEW_BYTES
+        ? read().then((content) => `data:${mime};base64,${content.toString('base64')}`)
+        : Promise.resolve(undefined);
+
+    const fromObject = async (spec: string): Promise<BinarySide | undefined> => {
+      try {
+        const sha = (await this.exec(['rev-parse', '--verify', '--quiet', spec])).trim();
+        const size = parseInt(await this.exec(['cat-file', '-s', sha]), 10);
+        const dataUri = await preview(size, () => this.execBuffer(['cat-file', 'blob', sha]));
+        return { size, sha, dataUri };
+      } catch {
+        return undefined;
+      }
+    };
+
+    const fromWorktree = async (): Promise<BinarySide | undefined> => {
+      const absPath = join(this.getRepoRoot(), filePath);
+      try {
+        const { size } = await stat(absPath);
+        const sha = (await this.exec(['hash-object', '--', filePath])).trim();
+        return { size, sha, dataUri: await preview(size, () => readFile(absPath)) };
+      } catch {
+        return undefined;
+      }
+    };
+
+    const added = file.isUntracked || file.oldPath === '/dev/null';
+    const oldSource = this.mode === 'unstaged' ? '' : this.baseRef;
+    const [oldSide, newSide] = await Promise.all([
+      added ? undefined : fromObject(`${oldSource}:${file.oldPath}`),
+      file.isDeleted
+        ? undefined
+        : this.mode === 'staged'
+          ? fromObject(`:${filePath}`)
+          : fromWorktree(),
+    ]);
+    return { old: oldSide, new: newSide };
+  }
+
+  /**
+   * Read the content of a file as it appears on the new side of the diff —
+   * the index in staged mode, the working tree otherwise — split into lines.
    */
   async getFileContent(filePath: string): Promise<string[]> {
+    if (this.mode === 'staged') {
+      const content = await this.exec(['show', `:${filePath}`]);
+      return content.split('\n');
+    }
     const absPath = join(this.getRepoRoot(), filePath);
     const content = await readFile(absPath, 'utf-8');
     return content.split('\n');
@@ -205,16 +1239,94 @@ export class GitAdapter {
    * Forward-apply a patch (undo a rejection). Patch is the same format
    * that was passed to applyReverse.
    */
-  async applyForward(patch: string): Promise<void> {
-    await this.execStdin(['apply', '--unidiff-zero', '-'], patch);
+  async applyForward(patch: string, cached = false): Promise<void> {
+    const target = cached ? ['--cached'] : [];
+    await this.execStdin(['apply', ...target, '--unidiff-zero', '-'], patch);
   }
 
-  private exec(args: string[]): Promise<string> {
+  /**
+   * Object name of a file's current content: the working tree version, or the
+   * index version with `cached`. With `write` the working tree content is also
+   * stored as a blob; loose blobs nothing refers to are pruned by `git gc`
+   * after a couple of weeks.
+   */
+  async hashFile(filePath: string, cached = false, write = false): Promise<string> {
+    if (cached) {
+      return (await this.exec(['rev-parse', '--verify', `:${filePath}`])).trim();
+    }
+    const store = write ? ['-w'] : [];
+    return (await this.exec(['hash-object', ...store, '--', filePath])).trim();
+  }
+
+  /**
+   * Forward-apply a patch whose lines no longer match the file by merging it
+   * in three ways, with `baseBlob` as the content the patch was made against,
+   * like `git apply --3way`. The working tree is merged through a temporary
+   * index holding just the file, so the real index is left alone. Returns true
+   * when the merge left conflict markers in the file. With `cached` the index
+   * is patched instead, and a conflict is refused since the index can't hold
+   * conflict markers. A patch creating the file merges from an empty base,
+   * given as the all-zeros object name.
+   */
+  async applyThreeWay(
+    patch: string,
+    filePath: string,
+    baseBlob: string,
+    cached = false,
+  ): Promise<boolean> {
+    // --3way needs the git patch header naming the blob the patch applies to
+    const oldLine = patch.split('\n')[0];
+    const creates = oldLine === '--- /dev/null';
+    const oldName = oldLine.startsWith('--- a/') ? oldLine.slice(4) : `a/${filePath}`;
+    const header = [
+      `diff --git ${oldName} b/${filePath}`,
+      ...(creates ? ['new file mode 100644'] : []),
+      `index ${baseBlob}..${baseBlob}`,
+    ];
+    const gitPatch = [...header, patch].join('\n');
+
+    if (cached) {
+      const entry = await this.getIndexEntry(filePath);
+      try {
+        await this.execStdin(['apply', '--cached', '--3way', '--unidiff-zero', '-'], gitPatch);
+      } catch (err) {
+        await this.setIndexEntry(filePath, undefined);
+        await this.setIndexEntry(filePath, entry);
+        throw err;
+      }
+      return false;
+    }
+
+    const indexFile = join(tmpdir(), `diff-reviewer-${randomBytes(6).toString('hex')}.index`);
+    const env = { GIT_INDEX_FILE: indexFile };
+    try {
+      await this.exec(['update-index', '--add', '--', filePath], env);
+      try {
+        await this.execStdin(['apply', '--3way', '--unidiff-zero', '-'], gitPatch, env);
+      } catch (err) {
+        // A merge with conflicts fails too, but leaves the file unmerged in the index
+        const unmerged = await this.exec(['ls-files', '--unmerged', '--', filePath], env);
+        if (!unmerged.trim()) {
+          throw err;
+        }
+        return true;
+      }
+      return false;
+    } finally {
+      await rm(indexFile, { force: true });
+    }
+  }
+
+  private exec(args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
     return new Promise((resolve, reject) => {
       execFile(
         'git',
         args,
-        { cwd: this.getRepoRoot(), maxBuffer: 10 * 1024 * 1024 },
+        {
+          cwd: this.getRepoRoot(),
+          maxBuffer: this.maxOutputSize,
+          env: env && { ...process.env, ...env },
+        },
         (err, stdout, stderr) => {
           if (err) {
             reject(new Error(`git ${args[0]} failed: ${stderr || err.message}`));
@@ -226,9 +1338,53 @@ export class GitAdapter {
     });
   }
 
-  private execStdin(args: string[], stdin: string): Promise<string> {
+  /**
+   * Like exec, handing the output to `onData` as it arrives instead of
+   * buffering it, so its size is unbounded.
+   */
+  private execStream(args: string[], onData: (chunk: string) => void): Promise<void> {
     return new Promise((resolve, reject) => {
-      const proc = execFile('git', args, { cwd: this.getRepoRoot() }, (err, stdout, stderr) => {
+      const proc = spawn('git', args, { cwd: this.getRepoRoot() });
+      let stderr = '';
+      proc.stdout.setEncoding('utf-8');
+      proc.stdout.on('data', onData);
+      proc.stderr.setEncoding('utf-8');
+      proc.stderr.on('data', (chunk: string) => {
+        stderr += chunk;
+      });
+      proc.on('error', (err) => reject(new Error(`git ${args[0]} failed: ${err.message}`)));
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`git ${args[0]} failed: ${stderr || `exit code ${code}`}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /** Like exec, for output that isn't text (blob content); the output size is unbounded. */
+  private execBuffer(args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        args,
+        { cwd: this.getRepoRoot(), encoding: 'buffer', maxBuffer: Infinity },
+        (err, stdout, stderr) => {
+          if (err) {
+            reject(new Error(`git ${args[0]} failed: ${stderr.toString() || err.message}`));
+            return;
+          }
+          resolve(stdout);
+        },
+      );
+    });
+  }
+
+  private execStdin(args: string[], stdin: string, env?: NodeJS.ProcessEnv): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const options = { cwd: this.getRepoRoot(), env: env && { ...process.env, ...env } };
+      const proc = execFile('git', args, options, (err, stdout, stderr) => {
         if (err) {
           reject(new Error(`git ${args[0]} failed: ${stderr || err.message}`));
           return;
@@ -240,3 +1396,22 @@ export class GitAdapter {
     });
   }
 }
+
+function sameEntry(a: IndexEntry | undefined, b: IndexEntry | undefined): boolean {
+  return a?.mode === b?.mode && a?.sha === b?.sha;
+}
+
+function isExecutableMode(mode: string): boolean {
+  return mode === '100755';
+}
+
+/**
+ * Assign content-based IDs to every hunk of a file.
+ */
+function withHunkIds(file: DiffFile): DiffFile {
+  const ids = computeHunkIds(getFilePath(file), file.hunks);
+  file.hunks.forEach((h, i) => {
+    h.id = ids[i];
+  });
+  return file;
+}
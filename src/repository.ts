@@ -0,0 +1,124 @@
+import { basename, join } from 'path';
+import type * as vscode from 'vscode';
+import { GitAdapter } from './git/gitAdapter';
+import { RejectTrash } from './state/rejectTrash';
+import { StateManager } from './state/stateManager';
+import { RepoOperation, RepoState } from './types';
+
+const OPERATION_LABELS: Record<RepoOperation, string> = {
+  rebase: 'rebasing',
+  am: 'applying patches',
+  merge: 'merging',
+  'cherry-pick': 'cherry-picking',
+  revert: 'reverting',
+  bisect: 'bisecting',
+};
+
+/** The ref the diff is computed against, plus a human-readable label for the view. */
+export interface ReviewBase {
+  ref: string;
+  label: string;
+}
+
+/** A git repository in the workspace with its own adapter and review state. */
+export interface Repository {
+  /** Absolute repository root; also keys persisted state and webview messages */
+  root: string;
+  /** Display name for the tree (the root folder's name) */
+  name: string;
+  git: GitAdapter;
+  stateManager: StateManager;
+  base?: ReviewBase;
+  /** Branch and in-progress operation, once read */
+  state?: RepoState;
+  /** Submodules opened from the tree, keyed by path relative to `root` */
+  submodules: Map<string, Repository>;
+}
+
+/**
+ * Open the repository containing `folderPath`, or return undefined if the
+ * folder is not inside a git repository. A repository already in `open` is
+ * returned as it is. The primary repository (that of the first workspace
+ * folder) adopts review state saved by earlier versions.
+ */
+export async function openRepository(
+  folderPath: string,
+  storage: vscode.Memento,
+  isPrimary = false,
+  open?: ReadonlyMap<string, Repository>,
+): Promise<Repository | undefined> {
+  const git = new GitAdapter(folderPath);
+  try {
+    await git.init();
+  } catch {
+    return undefined;
+  }
+  const root = git.getRepoRoot();
+  const existing = open?.get(root);
+  if (existing) {
+    return existing;
+  }
+  if (isPrimary) {
+    StateManager.migrateLegacyState(storage, root);
+  }
+  return {
+    root,
+    name: basename(root),
+    git,
+    stateManager: new StateManager(
+      git,
+      storage,
+      root,
+      new RejectTrash(join(git.getGitDir(), 'diff-reviewer', 'trash')),
+    ),
+    submodules: new Map(),
+  };
+}
+
+/**
+ * Open (or reuse) the nested repository of a submodule so its own uncommitted
+ * changes can be reviewed. Returns undefined when the submodule is not
+ * checked out, in which case git would resolve to the parent repository.
+ */
+export async function openSubmodule(
+  parent: Repository,
+  submodulePath: string,
+  storage: vscode.Memento,
+): Promise<Repository | undefined> {
+  const existing = parent.submodules.get(submodulePath);
+  if (existing) {
+    return existing;
+  }
+  const repo = await openRepository(join(parent.root, submodulePath), storage);
+  if (!repo || repo.root === parent.root) {
+    return undefined;
+  }
+  repo.name = submodulePath;
+  parent.submodules.set(submodulePath, repo);
+  return repo;
+}
+
+/** The given repositories and every submodule opened beneath them. */
+export function flattenRepositories(repos: Iterable<Repository>): Repository[] {
+  return [...repos].flatMap((repo) => [repo, ...flattenRepositories(repo.submodules.values())]);
+}
+
+/** Find an open repository (top-level or submodule) by its root. */
+export function findRepository(
+  repos: Iterable<Repository>,
+  root: string | undefined,
+): Repository | undefined {
+  return root === undefined ? undefined : flattenRepositories(repos).find((r) => r.root === root);
+}
+
+/** Parts describing a repository's state in the tree, e.g. ["main", "rebasing"]. */
+export function describeRepoState(state: RepoState | undefined): string[] {
+  if (!state) {
+    return [];
+  }
+  const parts = [state.branch ?? 'detached'];
+  if (state.operation) {
+    parts.push(OPERATION_LABELS[state.operation]);
+  }
+  return parts;
+}
@@ -0,0 +1,58 @@
+import type * as vscode from 'vscode';
+import { ReviewRuleSettings } from './git/fileFilter';
+import { HunkGranularity, IgnoreWhitespace, WebviewConfig } from './types';
+
+/** Typed view of the `diffReviewer.*` settings. */
+export interface Config {
+  /** Stage hunks on approval and unstage them when the approval is undone */
+  stageOnApprove: boolean;
+  /** Quiet period after file changes before the diff is refreshed, in milliseconds */
+  refreshDelay: number;
+  /** Largest git output accepted, in bytes */
+  maxOutputSize: number;
+  /** Diffs of a single file larger than this, in bytes, are collapsed until opened */
+  maxFileDiffSize: number;
+  hunkGranularity: HunkGranularity;
+  /** Context lines that may separate changes merged into one hunk in 'nearby' granularity */
+  mergeContextLines: number;
+  /** Whitespace differences that don't count as changes; 'none' when the toggle is off */
+  ignoreWhitespace: IgnoreWhitespace;
+  reviewRules: ReviewRuleSettings;
+  webview: WebviewConfig;
+}
+
+/** The settings of the `diffReviewer` section, as `getConfiguration` returns them. */
+export type Settings = Pick<vscode.WorkspaceConfiguration, 'get'>;
+
+/** A numeric setting, at least `min`, or `fallback` when it isn't a number. */
+function numberSetting(settings: Settings, key: string, fallback: number, min: number): number {
+  const value = settings.get<unknown>(key);
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, value) : fallback;
+}
+
+/** Turn the raw settings into a Config, falling back to the defaults for invalid values. */
+export function parseConfig(settings: Settings): Config {
+  const granularity = settings.get<string>('hunkGranularity');
+  return {
+    stageOnApprove: settings.get<boolean>('stageOnApprove', false),
+    refreshDelay: numberSetting(settings, 'refreshDelay', 500, 0),
+    maxOutputSize: numberSetting(settings, 'maxOutputSizeMB', 10, 1) * 1024 * 1024,
+    maxFileDiffSize: numberSetting(settings, 'maxFileDiffSizeKB', 1024, 1) * 1024,
+    hunkGranularity: granularity === 'hunk' || granularity === 'nearby' ? granularity : 'change',
+    mergeContextLines: numberSetting(settings, 'mergeContextLines', 3, 1),
+    ignoreWhitespace: !settings.get<boolean>('ignoreWhitespace', false)
+      ? 'none'
+      : settings.get<string>('ignoreWhitespaceMode') === 'all'
+        ? 'all'
+        : 'change',
+    reviewRules: {
+      include: settings.get<string[]>('include', []),
+      exclude: settings.get<string[]>('exclude', []),
+      honorAttributes: settings.get<boolean>('honorGitAttributes', true),
+    },
+    webview: {
+      autoScroll: settings.get<boolean>('autoScroll', true),
+      confirmReject: settings.get<boolean>('confirmReject', true),
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import * as path from 'path';
+import { getFilePath } from '../git/diffParser';
+import { REVIEW_IGNORE_FILE } from '../git/gitAdapter';
+import { DiffFile } from '../types';
+
+/** Files whose changes alter which paths are reviewed, so they re-diff the whole repository. */
+const RULE_FILES = new Set([REVIEW_IGNORE_FILE, '.gitattributes']);
+
+/**
+ * How a change inside a `.git` directory affects the diff: HEAD, the index and
+ * refs move what the working tree is compared against, while objects, logs and
+ * lock files don't. Undefined for paths outside `.git`.
+ */
+export function classifyGitDirChange(fsPath: string): 'full' | 'none' | undefined {
+  const parts = fsPath.split(/[\\/]/);
+  const gitDir = parts.lastIndexOf('.git');
+  if (gitDir === -1) {
+    return undefined;
+  }
+  const inside = parts.slice(gitDir + 1);
+  const name = inside[inside.length - 1];
+  if (
+    inside.length === 0 ||
+    inside[0] === 'refs' ||
+    ['HEAD', 'index', 'packed-refs'].includes(name)
+  ) {
+    return 'full';
+  }
+  return 'none';
+}
+
+/** Whether `filePath` is `scope` itself or lies beneath it. */
+export function isWithin(filePath: string, scope: string): boolean {
+  return filePath === scope || filePath.startsWith(scope + '/');
+}
+
+/** Whether a file's new or old path lies within `scope`. */
+function touches(file: DiffFile, scope: string): boolean {
+  return [file.newPath, file.oldPath].some((p) => isWithin(p, scope));
+}
+
+/**
+ * The pathspecs to re-diff for changes at the given repository-relative paths.
+ * A path inside a submodule re-diffs the submodule's entry, and both sides of
+ * a cached rename or copy are included so git can still pair them up.
+ * Undefined when a review rule file changed, which calls for a full re-diff.
+ */
+export function scopeChangedPaths(
+  relPaths: string[],
+  submodules: string[],
+  cached: DiffFile[],
+): Set<string> | undefined {
+  const scopes = new Set(relPaths.map((p) => submodules.find((s) => isWithin(p, s)) ?? p));
+  if ([...scopes].some((s) => RULE_FILES.has(path.posix.basename(s)))) {
+    return undefined;
+  }
+  for (const file of cached.filter((f) => [...scopes].some((s) => touches(f, s)))) {
+    scopes.add(getFilePath(file));
+    const source = file.renamedFrom ?? file.copiedFrom;
+    if (source) {
+      scopes.add(source);
+    }
+  }
+  return scopes;
+}
+
+/**
+ * Replace the cached files within `scopes` by their re-diffed versions in
+ * `fresh`. Updated files stay where they were so the tree order is stable,
+ * new ones go last and files no longer in the diff are dropped.
+ */
+export function replaceScopedFiles(
+  cached: DiffFile[],
+  scopes: Set<string>,
+  fresh: DiffFile[],
+): DiffFile[] {
+  const stale = new Set(cached.filter((f) => [...scopes].some((s) => touches(f, s))));
+  const byPath = new Map(fresh.map((f) => [getFilePath(f), f]));
+  const next = cached.flatMap((f) => {
+    if (!stale.has(f)) {
+      return [f];
+    }
+    const updated = byPath.get(getFilePath(f));
+    byPath.delete(getFilePath(f));
+    return updated ? [updated] : [];
+  });
+  return [...next, ...byPath.values()];
+}
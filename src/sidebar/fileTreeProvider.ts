@@ -1,40 +1,249 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { GitAdapter } from '../git/gitAdapter';
-import { StateManager } from '../state/stateManager';
+import { getFilePath, linkMovedHunks } from '../git/diffParser';
+import { describeRepoState, findRepository, flattenRepositories, Repository } from '../repository';
 import { DiffFile } from '../types';
+import {
+  classifyGitDirChange,
+  isWithin,
+  replaceScopedFiles,
+  scopeChangedPaths,
+} from './changedPaths';
 
-export class FileTreeProvider implements vscode.TreeDataProvider<DiffFile> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<DiffFile | undefined>();
+/** Tree node grouping the files of one repository (multi-repository workspaces only). */
+export interface RepositoryNode {
+  kind: 'repository';
+  repo: Repository;
+}
+
+export type TreeNode = RepositoryNode | DiffFile;
+
+/** Beyond this many changed paths in one batch, a full re-diff is cheaper than a scoped one. */
+const MAX_SCOPED_PATHS = 200;
+
+/** Minimum time between tree updates while a large diff is still being parsed */
+const PROGRESS_INTERVAL_MS = 250;
+
+function isRepositoryNode(node: TreeNode): node is RepositoryNode {
+  return (node as RepositoryNode).kind === 'repository';
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Tree item description for a file: its directory, or "old → new" for a rename
+ * or copy, followed by any mode change and a "binary" badge.
+ */
+function describePath(file: DiffFile): string {
+  const filePath = getFilePath(file);
+  const source = file.renamedFrom ?? file.copiedFrom;
+  const dirPath = path.dirname(filePath);
+  const parts = [source ? `${source} → ${filePath}` : dirPath === '.' ? '' : dirPath + '/'];
+  if (file.oldMode && file.newMode) {
+    parts.push(`${file.oldMode} → ${file.newMode}`);
+  }
+  if (file.isBinary) {
+    parts.push('binary');
+  }
+  return parts.filter(Boolean).join(' · ');
+}
+
+export class FileTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeNode | undefined>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  /** Fires after a refresh scheduled by {@link scheduleRefresh} has run. */
+  private _onDidScheduledRefresh = new vscode.EventEmitter<void>();
+  readonly onDidScheduledRefresh = this._onDidScheduledRefresh.event;
 
-  private files: DiffFile[] = [];
+  private repos: RepositoryNode[] = [];
+  /** repoRoot → files in that repository's diff (including expanded submodules) */
+  private files = new Map<string, DiffFile[]>();
+  /** Quiet period before a scheduled refresh runs, in milliseconds */
+  private refreshDelay = 500;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Absolute paths changed on disk since the last scheduled refresh */
+  private changedPaths = new Set<string>();
+  private fullRefreshPending = false;
 
+  /**
+   * @param openSubmodule Opens the nested repository of a submodule file when
+   *   its node is expanded; resolves to undefined if it is not checked out.
+   */
   constructor(
-    private git: GitAdapter,
-    private stateManager: StateManager,
-  ) {
-    // A
+    private openSubmodule: (parent: Repository, file: DiffFile) => Promise<Repository | undefined>,
+  ) {}
+
+  setRepositories(repos: Repository[]): void {
+    this.repos = repos.map(
+      (repo) =>
+        this.repos.find((node) => node.repo.root === repo.root) ?? { kind: 'repository', repo },
+    );
+    for (const root of this.files.keys()) {
+      if (!repos.some((r) => r.root === root)) {
+        this.files.delete(root);
+      }
+    }
+    this._onDidChangeTreeData.fire(undefined);
   }
 
+  /**
+   * Re-diff every repository. A repository that fails keeps its previous files
+   * so the others still update; the first failure is rethrown afterwards.
+   * On a repository's first load, files are listed as they are parsed.
+   */
   async refresh(): Promise<void> {
-    this.files = await this.git.getDiff();
+    const results = await Promise.allSettled(
+      this.allRepositories().map(async (repo) => {
+        const onFile = this.files.has(repo.root) ? undefined : this.showProgress(repo.root);
+        this.setFiles(repo.root, await repo.git.getDiff([], onFile));
+      }),
+    );
+    this.pruneSubmodules();
+    this._onDidChangeTreeData.fire(undefined);
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
+  }
+
+  /** Re-render the tree without re-diffing, e.g. after review statuses changed. */
+  redraw(): void {
     this._onDidChangeTreeData.fire(undefined);
   }
 
-  getFiles(): DiffFile[] {
-    return this.files;
+  setRefreshDelay(ms: number): void {
+    this.refreshDelay = ms;
   }
 
-  getTreeItem(element: DiffFile): vscode.TreeItem {
-    const filePath = element.newPath || element.oldPath;
+  /**
+   * Refresh once changes have been quiet for the refresh delay; each call
+   * restarts the wait. Only the files under the changed paths are re-diffed,
+   * unless HEAD or the index moved or no path is given, which re-diffs
+   * everything. Changes to other git internals are ignored. Failures are left
+   * to the next refresh.
+   */
+  scheduleRefresh(changedPath?: string): void {
+    const gitDirChange = changedPath === undefined ? 'full' : classifyGitDirChange(changedPath);
+    if (gitDirChange === 'none') {
+      return;
+    }
+    if (gitDirChange === 'full') {
+      this.fullRefreshPending = true;
+    } else {
+      this.changedPaths.add(changedPath!);
+    }
+
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = undefined;
+      const paths = [...this.changedPaths];
+      const full = this.fullRefreshPending || paths.length > MAX_SCOPED_PATHS;
+      this.changedPaths.clear();
+      this.fullRefreshPending = false;
+      await (full ? this.refresh() : this.refreshPaths(paths)).catch(() => undefined);
+      this._onDidScheduledRefresh.fire();
+    }, this.refreshDelay);
+  }
+
+  /** Cache a repository's diffed files, pairing up the halves of moved blocks. */
+  private setFiles(repoRoot: string, files: DiffFile[]): void {
+    linkMovedHunks(files);
+    this.files.set(repoRoot, files);
+  }
+
+  /** List a repository's files as they arrive, updating the tree now and then. */
+  private showProgress(repoRoot: string): (file: DiffFile) => void {
+    const partial: DiffFile[] = [];
+    this.files.set(repoRoot, partial);
+    let lastUpdate = 0;
+    return (file) => {
+      partial.push(file);
+      if (Date.now() - lastUpdate >= PROGRESS_INTERVAL_MS) {
+        lastUpdate = Date.now();
+        this._onDidChangeTreeData.fire(undefined);
+      }
+    };
+  }
+
+  /**
+   * Re-diff only the files at or beneath the given absolute paths, updating the
+   * cached files of each repository they belong to in place. A path inside a
+   * submodule also re-diffs the submodule's entry in its parent. Repositories
+   * not diffed yet, or whose review rules changed, are re-diffed in full.
+   */
+  private async refreshPaths(fsPaths: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      this.allRepositories().map(async (repo) => {
+        const relPaths = fsPaths
+          .map((p) => path.relative(repo.root, p).split(path.sep).join('/'))
+          .filter((p) => p && !isWithin(p, '..') && !path.isAbsolute(p));
+        if (relPaths.length === 0) {
+          return;
+        }
+        const cached = this.files.get(repo.root);
+        const submodules = await repo.git.getSubmodulePaths();
+        const scopes = cached && scopeChangedPaths(relPaths, submodules, cached);
+        if (!cached || !scopes) {
+          this.setFiles(repo.root, await repo.git.getDiff());
+          return;
+        }
+        const fresh = await repo.git.getDiff([...scopes]);
+        this.setFiles(repo.root, replaceScopedFiles(cached, scopes, fresh));
+      }),
+    );
+    this.pruneSubmodules();
+    this._onDidChangeTreeData.fire(undefined);
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
+  }
+
+  /** Files of one repository, or of all repositories when no root is given. */
+  getFiles(repoRoot?: string): DiffFile[] {
+    if (repoRoot !== undefined) {
+      return this.files.get(repoRoot) ?? [];
+    }
+    return [...this.files.values()].flat();
+  }
+
+  getTreeItem(element: TreeNode): vscode.TreeItem {
+    if (isRepositoryNode(element)) {
+      return this.getRepositoryItem(element.repo);
+    }
+
+    const filePath = getFilePath(element);
     const fileName = path.basename(filePath);
-    const dirPath = path.dirname(filePath);
-    const resolved = this.stateManager.isFileResolved(filePath);
+    if (element.submodule) {
+      return this.getSubmoduleItem(element);
+    }
+    if (element.tooLarge) {
+      const item = new vscode.TreeItem(fileName, vscode.TreeItemCollapsibleState.None);
+      const size = formatSize(element.tooLarge);
+      item.description = [describePath(element), `too large · ${size}`].filter(Boolean).join(' · ');
+      item.tooltip = `The diff of ${filePath} is ${size}, over diffReviewer.maxFileDiffSizeKB. Open it to load it anyway.`;
+      item.iconPath = new vscode.ThemeIcon('warning');
+      item.contextValue = 'diffFileTooLarge';
+      item.command = {
+        command: 'diffReviewer.openFile',
+        title: 'Open Diff View',
+        arguments: [element],
+      };
+      return item;
+    }
+
+    const stateManager = findRepository(this.topLevel(), element.repoRoot)?.stateManager;
+    const resolved =
+      !element.conflicts?.length && (stateManager?.isFileResolved(filePath) ?? false);
 
     if (resolved) {
       const item = new vscode.TreeItem(fileName, vscode.TreeItemCollapsibleState.None);
-      item.description = dirPath === '.' ? '' : dirPath + '/';
+      item.description = describePath(element);
       item.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'));
       item.contextValue = 'diffFileResolved';
       item.command = {
@@ -45,8 +254,23 @@ export class FileTreeProvider implements vscode.TreeDataProvider<DiffFile> {
       return item;
     }
 
-    const statuses = this.stateManager.syncStatuses(element);
-    const pendingCount = statuses.filter((s) => s === 'pending').length;
+    if (element.hunks.length > 0 && element.hunks.every((h) => h.readOnly)) {
+      const item = new vscode.TreeItem(fileName, vscode.TreeItemCollapsibleState.None);
+      item.description = [describePath(element), 'committed'].filter(Boolean).join(' · ');
+      item.iconPath = new vscode.ThemeIcon('git-commit');
+      item.contextValue = 'diffFileCommitted';
+      item.command = {
+        command: 'diffReviewer.openFile',
+        title: 'Open Diff View',
+        arguments: [element],
+      };
+      return item;
+    }
+
+    const statuses = stateManager?.syncStatuses(element) ?? [];
+    // Unresolved conflicts need a decision as much as pending hunks do
+    const pendingCount =
+      statuses.filter((s) => s === 'pending').length + (element.conflicts?.length ?? 0);
     const badge = pendingCount > 99 ? '99+' : String(pendingCount);
 
     const label: vscode.TreeItemLabel = {
@@ -54,10 +278,25 @@ export class FileTreeProvider implements vscode.TreeDataProvider<DiffFile> {
       highlights: [[0, badge.length + 4]],
     };
     const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
-    item.description = dirPath === '.' ? '' : dirPath + '/';
+    item.description = describePath(element);
     item.contextValue = 'diffFile';
-    if (element.isUntracked) {
+    if (element.conflicts?.length) {
+      const count = element.conflicts.length;
+      item.description = [item.description, `${count} conflict${count === 1 ? '' : 's'}`]
+        .filter(Boolean)
+        .join(' · ');
+      item.iconPath = new vscode.ThemeIcon(
+        'git-merge',
+        new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'),
+      );
+    } else if (element.isUntracked) {
       item.iconPath = new vscode.ThemeIcon('new-file');
+    } else if (element.isDeleted) {
+      item.iconPath = new vscode.ThemeIcon(
+        'diff-removed',
+        new vscode.ThemeColor('gitDecoration.deletedResourceForeground'),
+      );
+      item.tooltip = `${filePath} (deleted)`;
     }
     item.command = {
       command: 'diffReviewer.openFile',
@@ -67,10 +306,112 @@ export class FileTreeProvider implements vscode.TreeDataProvider<DiffFile> {
     return item;
   }
 
-  getChildren(element?: DiffFile): DiffFile[] {
+  async getChildren(element?: TreeNode): Promise<TreeNode[]> {
     if (element) {
-      return []; // flat list, no children
+      if (isRepositoryNode(element)) {
+        return this.getFiles(element.repo.root);
+      }
+      return element.submodule ? this.getSubmoduleFiles(element) : [];
+    }
+    // Only group by repository when there is more than one
+    if (this.repos.length === 1) {
+      return this.getFiles(this.repos[0].repo.root);
     }
-    return this.files;
+    return this.repos;
+  }
+
+  private topLevel(): Repository[] {
+    return this.repos.map((node) => node.repo);
+  }
+
+  private allRepositories(): Repository[] {
+    return flattenRepositories(this.topLevel());
+  }
+
+  /** Forget submodules that no longer appear in their parent's diff. */
+  private pruneSubmodules(): void {
+    for (const repo of this.allRepositories()) {
+      const changed = new Set(
+        this.getFiles(repo.root)
+          .filter((f) => f.submodule)
+          .map((f) => getFilePath(f)),
+      );
+      for (const submodulePath of repo.submodules.keys()) {
+        if (!changed.has(submodulePath)) {
+          repo.submodules.delete(submodulePath);
+        }
+      }
+    }
+    const open = new Set(this.allRepositories().map((r) => r.root));
+    for (const root of this.files.keys()) {
+      if (!open.has(root)) {
+        this.files.delete(root);
+      }
+    }
+  }
+
+  private async getSubmoduleFiles(file: DiffFile): Promise<DiffFile[]> {
+    const parent = findRepository(this.topLevel(), file.repoRoot);
+    const repo = parent && (await this.openSubmodule(parent, file));
+    if (!repo) {
+      return [];
+    }
+    if (!this.files.has(repo.root)) {
+      this.setFiles(repo.root, await repo.git.getDiff());
+    }
+    return this.getFiles(repo.root);
+  }
+
+  private getSubmoduleItem(file: DiffFile): vscode.TreeItem {
+    const submodulePath = getFilePath(file);
+    const { oldSha, newSha, dirty } = file.submodule!;
+    const short = (sha: string) => sha.slice(0, 7);
+
+    const parts: string[] = [];
+    if (oldSha && newSha && oldSha !== newSha) {
+      parts.push(`${short(oldSha)} → ${short(newSha)}`);
+    } else if (newSha && !oldSha) {
+      parts.push(`added at ${short(newSha)}`);
+    } else if (oldSha && !newSha) {
+      parts.push('removed');
+    }
+    if (dirty) {
+      parts.push('modified content');
+    }
+
+    const item = new vscode.TreeItem(
+      path.basename(submodulePath),
+      newSha ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+    );
+    const dirPath = path.dirname(submodulePath);
+    item.description = [dirPath === '.' ? '' : dirPath + '/', parts.join(' · ')]
+      .filter(Boolean)
+      .join(' ');
+    item.tooltip = [
+      `Submodule ${submodulePath}`,
+      oldSha && `Old commit: ${oldSha}`,
+      newSha && `New commit: ${newSha}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+    item.iconPath = new vscode.ThemeIcon('file-submodule');
+    item.contextValue = 'diffSubmodule';
+    item.id = `submodule:${file.repoRoot}:${submodulePath}`;
+    return item;
+  }
+
+  private getRepositoryItem(repo: Repository): vscode.TreeItem {
+    const item = new vscode.TreeItem(repo.name, vscode.TreeItemCollapsibleState.Expanded);
+    const count = this.getFiles(repo.root).length;
+    const parts = [`${count} file${count === 1 ? '' : 's'}`, ...describeRepoState(repo.state)];
+    if (repo.base && repo.base.ref !== 'HEAD' && repo.git.getMode() !== 'unstaged') {
+      parts.push(`vs ${repo.base.label}`);
+    }
+    item.description = parts.join(' · ');
+    item.tooltip = repo.root;
+    item.iconPath = new vscode.ThemeIcon('repo');
+    item.contextValue = 'diffRepository';
+    item.id = `repository:${repo.root}`;
+    return item;
   }
 }
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findRepository, Repository } from '../repository';
+import { MetaRestore, TrashEntry } from '../types';
+
+/** URI scheme of the read-only documents previewing a rejected change. */
+export const REJECTED_SCHEME = 'diff-reviewer-rejected';
+
+/** Tree node grouping the rejected changes of one repository (multi-repository workspaces only). */
+interface RepositoryNode {
+  kind: 'repository';
+  repo: Repository;
+}
+
+export interface RejectedNode {
+  kind: 'rejected';
+  repo: Repository;
+  entry: TrashEntry;
+}
+
+type RejectedTreeNode = RepositoryNode | RejectedNode;
+
+const META_LABELS: Record<MetaRestore['kind'], string> = {
+  rename: 'rename',
+  copy: 'copy',
+  mode: 'mode change',
+  delete: 'deletion',
+  binary: 'binary change',
+};
+
+/** How long ago a timestamp was, e.g. "5 min ago". */
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} h ago`;
+  }
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+/** The text shown when previewing a rejected change: its patch, or what re-applying it does. */
+function describeRejected(entry: TrashEntry): string {
+  if (entry.forwardPatch) {
+    return entry.forwardPatch;
+  }
+  if (entry.untrackedInsert) {
+    const { lineIndex, lines } = entry.untrackedInsert;
+    return [
+      `+++ b/${entry.filePath}`,
+      `@@ -${lineIndex},0 +${lineIndex + 1},${lines.length} @@`,
+      ...lines.map((line) => `+${line}`),
+      '',
+    ].join('\n');
+  }
+  if (entry.metaRestore) {
+    const restore = entry.metaRestore;
+    const target = restore.kind === 'rename' ? `${restore.from} → ${restore.to}` : restore.path;
+    return `Rejected ${META_LABELS[restore.kind]} of ${target}\n`;
+  }
+  return '';
+}
+
+/**
+ * The "Rejected Changes" view: the trash of every repository, newest first.
+ * Also provides the read-only documents that preview an entry.
+ */
+export class RejectedTreeProvider
+  implements vscode.TreeDataProvider<RejectedTreeNode>, vscode.TextDocumentContentProvider
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<RejectedTreeNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private getRepositories: () => Repository[]) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /** The URI of the document previewing a rejected change. */
+  previewUri(node: RejectedNode): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: REJECTED_SCHEME,
+      path: `/${node.entry.filePath}.diff`,
+      query: node.repo.root,
+      fragment: node.entry.id,
+    });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const repo = findRepository(this.getRepositories(), uri.query);
+    const rejected = await repo?.stateManager.listRejected();
+    const entry = rejected?.find((e) => e.id === uri.fragment);
+    return entry ? describeRejected(entry) : 'This change is no longer in the trash.\n';
+  }
+
+  getTreeItem(node: RejectedTreeNode): vscode.TreeItem {
+    if (node.kind === 'repository') {
+      const item = new vscode.TreeItem(node.repo.name, vscode.TreeItemCollapsibleState.Expanded);
+      item.tooltip = node.repo.root;
+      item.iconPath = new vscode.ThemeIcon('repo');
+      item.id = `rejected:${node.repo.root}`;
+      return item;
+    }
+
+    const { entry } = node;
+    const item = new vscode.TreeItem(path.basename(entry.filePath));
+    const dirPath = path.dirname(entry.filePath);
+    item.description = [dirPath === '.' ? '' : dirPath + '/', formatAge(entry.timestamp)]
+      .filter(Boolean)
+      .join(' · ');
+    item.tooltip = `${entry.filePath}\nRejected ${new Date(entry.timestamp).toLocaleString()}`;
+    item.iconPath = new vscode.ThemeIcon('discard');
+    item.contextValue = 'rejectedChange';
+    item.command = {
+      command: 'diffReviewer.previewRejected',
+      title: 'Preview Rejected Change',
+      arguments: [node],
+    };
+    return item;
+  }
+
+  async getChildren(node?: RejectedTreeNode): Promise<RejectedTreeNode[]> {
+    if (node?.kind === 'rejected') {
+      return [];
+    }
+    const repos = node ? [node.repo] : this.getRepositories();
+    const entries = await Promise.all(
+      repos.map(async (repo) =>
+        (await repo.stateManager.listRejected()).map(
+          (entry): RejectedNode => ({ kind: 'rejected', repo, entry }),
+        ),
+      ),
+    );
+    // Only group by repository when there is more than one with rejected changes
+    const nonEmpty = repos.filter((_, i) => entries[i].length > 0);
+    if (!node && nonEmpty.length > 1) {
+      return nonEmpty.map((repo): RepositoryNode => ({ kind: 'repository', repo }));
+    }
+    return entries.flat();
+  }
+}
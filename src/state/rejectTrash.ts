@@ -0,0 +1,61 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { TrashEntry } from '../types';
+
+/**
+ * Rejected changes of one repository, kept on disk as one JSON file each so
+ * they outlive the undo history. Lives in the git directory, out of the diff.
+ */
+export class RejectTrash {
+  constructor(private dir: string) {}
+
+  async add(entry: Omit<TrashEntry, 'id'>): Promise<TrashEntry> {
+    const stored = { ...entry, id: `${entry.timestamp}-${randomBytes(4).toString('hex')}` };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.entryPath(stored.id), JSON.stringify(stored), 'utf-8');
+    return stored;
+  }
+
+  /** Every entry, newest first. Files that can't be read are skipped. */
+  async list(): Promise<TrashEntry[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const entries = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) =>
+          readFile(join(this.dir, name), 'utf-8')
+            .then((content) => JSON.parse(content) as TrashEntry)
+            .catch(() => undefined),
+        ),
+    );
+    return entries
+      .filter((e): e is TrashEntry => e !== undefined)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async get(id: string): Promise<TrashEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.entryPath(id), 'utf-8')) as TrashEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(this.entryPath(id), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  private entryPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -1,67 +1,214 @@
 import * as vscode from 'vscode';
-import { DiffFile, DiffHunk, HunkStatus, UndoEntry } from '../types';
+import {
+  ApprovedChange,
+  ConflictResolution,
+  DiffFile,
+  DiffHunk,
+  HunkStatus,
+  RepoOperation,
+  TrashEntry,
+  UndoEntry,
+} from '../types';
 import { GitAdapter } from '../git/gitAdapter';
+import {
+  buildCombinedPatch,
+  buildEditPatch,
+  buildPartialHunk,
+  buildPatch,
+  changedLineNumbers,
+  getFilePath,
+} from '../git/diffParser';
+import { RejectTrash } from './rejectTrash';
 
 const STORAGE_KEY = 'diffReviewer.hunkStatuses';
+const HISTORY_KEY = 'diffReviewer.history';
+/** Set once the state saved before branches were tracked has been moved to a branch */
+const BRANCHES_KEY = 'diffReviewer.branchesTracked';
+
+/** Most actions remembered for undo */
+const MAX_HISTORY = 100;
+
+const ACTION_NAMES: Record<UndoEntry['type'], string> = {
+  approve: 'approval',
+  reject: 'rejection',
+  edit: 'edit',
+  suggest: 'suggestion',
+  resolve: 'conflict resolution',
+};
+
+/** Undo and redo history, persisted per branch next to the approvals. */
+interface History {
+  undo: UndoEntry[];
+  redo: UndoEntry[];
+}
 
 export class StateManager {
   /** filePath → Map<hunkId, HunkStatus> */
   private statuses = new Map<string, Map<string, HunkStatus>>();
   private undoStack: UndoEntry[] = [];
+  /** Undone actions, most recently undone last, each stamped with when it was undone */
+  private redoStack: UndoEntry[] = [];
+  /** When true, approving a hunk also stages it in the git index */
+  private stageOnApprove = false;
+  /** Git operation in progress, during which rejecting is refused */
+  private operation: RepoOperation | undefined;
+  /** Looks up a file of the current diff, to act on the other half of a moved block */
+  private findFile: (filePath: string) => DiffFile | undefined = () => undefined;
+  /** Called when a change is added to or removed from the trash */
+  private onTrashChange: () => void = () => undefined;
+
+  /**
+   * Storage key of the repository, used while HEAD is detached; approvals on a
+   * branch are stored under `<key>@<branch>`.
+   */
+  private baseKey: string;
+  private storageKey: string;
+  /** Whether the state under the base key predates branch tracking */
+  private legacyState: boolean;
 
+  /**
+   * @param scope Distinguishes persisted state of different repositories sharing
+   *   one workspace memento (typically the repository root).
+   * @param trash Where rejected changes are kept so they can be re-applied later.
+   */
   constructor(
     private git: GitAdapter,
     private storage?: vscode.Memento,
+    scope?: string,
+    private trash?: RejectTrash,
   ) {
+    this.baseKey = scope ? `${STORAGE_KEY}:${scope}` : STORAGE_KEY;
+    this.storageKey = this.baseKey;
+    this.legacyState = !this.storage?.get<boolean>(this.branchesKey());
     if (this.storage) {
       this.restoreFromStorage();
     }
   }
 
+  /**
+   * Move statuses persisted before state was scoped per repository to the given
+   * scope, unless that scope already has state of its own.
+   */
+  static migrateLegacyState(storage: vscode.Memento, scope: string): void {
+    const legacy = storage.get(STORAGE_KEY);
+    const scopedKey = `${STORAGE_KEY}:${scope}`;
+    if (legacy === undefined || storage.get(scopedKey) !== undefined) {
+      return;
+    }
+    storage.update(scopedKey, legacy);
+    storage.update(STORAGE_KEY, undefined);
+  }
+
+  /**
+   * Timestamp of the most recent undoable action, or undefined if there is none.
+   */
+  lastActionTime(): number | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.timestamp;
+  }
+
+  /**
+   * Time of the most recent undo that can be redone, or undefined if there is none.
+   */
+  lastUndoTime(): number | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.timestamp;
+  }
+
+  /**
+   * Enable or disable approve-to-stage. Has no effect in staged mode, where
+   * every reviewed hunk is already in the index.
+   */
+  setStageOnApprove(enabled: boolean): void {
+    this.stageOnApprove = enabled;
+  }
+
+  /**
+   * Refuse to reject while a rebase, merge or similar operation is in
+   * progress, since rewriting files then can corrupt the operation.
+   */
+  setOperation(operation: RepoOperation | undefined): void {
+    this.operation = operation;
+  }
+
+  /**
+   * Set how to find the other files of the diff. Without it, moved blocks
+   * that span files are reviewed one half at a time.
+   */
+  setFileLookup(findFile: (filePath: string) => DiffFile | undefined): void {
+    this.findFile = findFile;
+  }
+
+  /** Listen for changes to the trash of rejected changes, to update its view. */
+  setTrashListener(onChange: () => void): void {
+    this.onTrashChange = onChange;
+  }
+
+  /**
+   * Load the approvals of the checked-out branch, keeping those of the previous
+   * branch for when it is checked out again. Approvals saved before branches
+   * were tracked carry over to the first branch seen, and so does the undo
+   * history, which is otherwise kept per branch like the approvals. A detached
+   * HEAD keeps its approvals under the base key.
+   */
+  setBranch(branch: string | undefined): void {
+    const key = branch === undefined ? this.baseKey : `${this.baseKey}@${branch}`;
+    const migrate = this.legacyState;
+    if (this.legacyState) {
+      this.legacyState = false;
+      this.storage?.update(this.branchesKey(), true);
+    }
+    if (key === this.storageKey) {
+      return;
+    }
+    if (migrate && this.storage?.get(key) === undefined) {
+      this.storage?.update(this.baseKey, undefined);
+      this.storage?.update(this.historyKey(), undefined);
+      this.storageKey = key;
+      this.persist();
+      this.persistHistory();
+      return;
+    }
+    this.storageKey = key;
+    this.statuses.clear();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.restoreFromStorage();
+  }
+
   /**
    * Sync statuses for a file: look up each hunk's ID in the map.
    * Returns ordered HunkStatus[] matching file.hunks order for the webview.
-   * Stale IDs (hunks no longer in diff) are dropped.
+   * Stale IDs (hunks no longer in diff) are dropped. Read-only (committed)
+   * hunks are never tracked and always report 'committed'.
    */
   syncStatuses(file: DiffFile): HunkStatus[] {
-    const path = file.newPath || file.oldPath;
+    const path = getFilePath(file);
     const existing = this.statuses.get(path);
 
-    if (!existing || existing.size === 0) {
-      const map = new Map<string, HunkStatus>();
-      for (const hunk of file.hunks) {
-        if (hunk.id) {
-          map.set(hunk.id, 'pending');
-        }
-      }
-      this.statuses.set(path, map);
-      this.persist();
-      return file.hunks.map(() => 'pending');
-    }
-
     // Build new map with only hunks present in the current diff
     const newMap = new Map<string, HunkStatus>();
     for (const hunk of file.hunks) {
-      if (hunk.id) {
-        newMap.set(hunk.id, existing.get(hunk.id) || 'pending');
+      if (hunk.id && !hunk.readOnly) {
+        newMap.set(hunk.id, existing?.get(hunk.id) || 'pending');
       }
     }
     this.statuses.set(path, newMap);
     this.persist();
 
-    return file.hunks.map((h) => (h.id ? newMap.get(h.id) || 'pending' : 'pending'));
+    return this.getStatusArray(file);
   }
 
   /**
    * Get statuses as an ordered array matching file.hunks order.
    */
   getStatusArray(file: DiffFile): HunkStatus[] {
-    const path = file.newPath || file.oldPath;
+    const path = getFilePath(file);
     const map = this.statuses.get(path);
-    if (!map) {
-      return file.hunks.map(() => 'pending');
-    }
-    return file.hunks.map((h) => (h.id ? map.get(h.id) || 'pending' : 'pending'));
+    return file.hunks.map((h) => {
+      if (h.readOnly) {
+        return 'committed';
+      }
+      return (h.id && map?.get(h.id)) || 'pending';
+    });
   }
 
   /**
@@ -92,33 +239,45 @@ export class StateManager {
   }
 
   /**
-   * Mark a hunk as approved by hunkId.
+   * Mark a hunk as approved by hunkId. With approve-to-stage enabled and the
+   * file provided, the hunk is staged first; if staging fails it stays pending.
+   * Approving half of a moved block approves the other half too.
    */
-  approve(filePath: string, hunkId: string): void {
+  async approve(filePath: string, hunkId: string, file?: DiffFile): Promise<void> {
     const map = this.statuses.get(filePath);
     if (!map || !map.has(hunkId)) {
       return;
     }
+    const staged = file !== undefined && this.shouldStage();
+    if (staged) {
+      await this.git.stageHunk(file, hunkId);
+    }
     map.set(hunkId, 'approved');
-    this.undoStack.push({ type: 'approve', filePath, hunkId });
+    this.pushUndo({ type: 'approve', filePath, hunkId, staged });
+
+    const partner = this.movedPartner(filePath, hunkId, file);
+    if (partner) {
+      if (staged) {
+        await this.git.stageHunk(partner.file, partner.hunkId);
+      }
+      this.approvePartner(partner, staged);
+    }
     this.persist();
   }
 
   /**
-   * Approve all pending hunks in a file.
+   * Approve all pending hunks in a file, staging each one when approve-to-stage is enabled.
    */
-  approveAll(filePath: string, file: DiffFile): void {
-    const map = this.statuses.get(filePath);
-    if (!map) {
-      return;
-    }
-    for (const hunk of file.hunks) {
-      if (hunk.id && map.get(hunk.id) === 'pending') {
-        map.set(hunk.id, 'approved');
-        this.undoStack.push({ type: 'approve', filePath, hunkId: hunk.id });
-      }
-    }
-    this.persist();
+  async approveAll(filePath: string, file: DiffFile): Promise<void> {
+    await this.approveHunks(filePath, file, () => true);
+  }
+
+  /**
+   * Approve the pending hunks of a file that only change whitespace, returning
+   * how many were approved.
+   */
+  async approveWhitespaceOnly(filePath: string, file: DiffFile): Promise<number> {
+    return this.approveHunks(filePath, file, (h) => h.whitespaceOnly === true);
   }
 
   /**
@@ -133,14 +292,10 @@ export class StateManager {
         break;
       }
 
-      // Find first pending hunk
-      let pendingHunkId: string | undefined;
-      for (const hunk of currentFile.hunks) {
-        if (hunk.id && map.get(hunk.id) === 'pending') {
-          pendingHunkId = hunk.id;
-          break;
-        }
-      }
+      // Find first pending hunk, leaving renames and copies until the line
+      // changes are gone since rejecting them moves or removes the file
+      const pending = currentFile.hunks.filter((h) => h.id && map.get(h.id) === 'pending');
+      const pendingHunkId = (pending.find((h) => !h.meta) ?? pending[0])?.id;
       if (!pendingHunkId) {
         break;
       }
@@ -152,7 +307,11 @@ export class StateManager {
   }
 
   /**
-   * Reject a hunk: reverse-apply it on disk via git apply -R.
+   * Reject a hunk: reverse-apply it on disk via git apply -R, or in the index
+   * via git apply --cached -R when reviewing staged changes. Renames, copies
+   * and mode changes are reverted by GitAdapter.revertMeta, and a deleted file
+   * is restored as a whole. Rejecting half of a moved block rejects the other
+   * half too.
    * Returns the updated DiffFile after re-parsing.
    */
   async reject(filePath: string, hunkId: string, file: DiffFile): Promise<DiffFile | null> {
@@ -160,78 +319,610 @@ export class StateManager {
     if (!hunk) {
       return null;
     }
+    this.checkRejectable(hunk);
+
+    const partner = this.movedPartner(filePath, hunkId, file);
+    await this.rejectHunk(filePath, hunk, file);
+    let freshFile = await this.reparse(filePath, file);
+
+    if (partner) {
+      // The other half's line numbers shifted if it is in the same file
+      const partnerPath = getFilePath(partner.file);
+      const partnerFile = partnerPath === filePath ? freshFile : partner.file;
+      const partnerHunk = partnerFile?.hunks.find((h) => h.id === partner.hunkId);
+      if (partnerFile && partnerHunk) {
+        await this.rejectHunk(partnerPath, partnerHunk, partnerFile, true);
+        if (partnerPath === filePath) {
+          freshFile = await this.reparse(filePath, partnerFile);
+        } else {
+          this.persist();
+        }
+      }
+    }
+    return freshFile;
+  }
+
+  /**
+   * Reject some of a hunk's changed lines, given as indexes into its `lines`,
+   * leaving the others pending. The rest of the hunk becomes a new hunk of its
+   * own. Selecting every changed line rejects the whole hunk.
+   * Returns the updated DiffFile after re-parsing.
+   */
+  async rejectLines(
+    filePath: string,
+    hunkId: string,
+    file: DiffFile,
+    lineIndexes: number[],
+  ): Promise<DiffFile | null> {
+    const hunk = file.hunks.find((h) => h.id === hunkId);
+    if (!hunk) {
+      return null;
+    }
+    this.checkRejectable(hunk);
+    const selected = [...new Set(lineIndexes)]
+      .filter((i) => hunk.lines[i] && hunk.lines[i].type !== 'context')
+      .sort((a, b) => a - b);
+    if (selected.length === 0) {
+      return file;
+    }
+    if (selected.length === hunk.lines.filter((l) => l.type !== 'context').length) {
+      return this.reject(filePath, hunkId, file);
+    }
+    if (hunk.meta || file.isDeleted || file.isBinary) {
+      throw new Error('Only line changes can be rejected line by line.');
+    }
 
     if (file.isUntracked) {
-      await this.git.rejectUntrackedHunk(filePath, hunk);
-      this.undoStack.push({
-        type: 'reject',
-        filePath,
-        hunkId,
-        untrackedInsert: {
-          lineIndex: hunk.newStart - 1,
-          lines: hunk.lines.map((l) => l.content),
-        },
-      });
+      // Remove each run of adjacent lines, last first so earlier positions hold;
+      // undoing re-inserts them first to last
+      const runs: { lineIndex: number; lines: string[] }[] = [];
+      for (const i of selected) {
+        const lineIndex = hunk.newStart - 1 + i;
+        const last = runs[runs.length - 1];
+        if (last && last.lineIndex + last.lines.length === lineIndex) {
+          last.lines.push(hunk.lines[i].content);
+        } else {
+          runs.push({ lineIndex, lines: [hunk.lines[i].content] });
+        }
+      }
+      for (const [n, run] of runs.reverse().entries()) {
+        await this.git.rejectUntrackedHunk(filePath, {
+          ...hunk,
+          newStart: run.lineIndex + 1,
+          newCount: run.lines.length,
+        });
+        await this.pushReject({ filePath, hunkId, untrackedInsert: run, joined: n > 0 });
+      }
     } else {
-      const patch = buildPatch(file, hunk);
-      await this.git.applyReverse(patch);
-      this.undoStack.push({ type: 'reject', filePath, hunkId, forwardPatch: patch });
+      // A partial patch of an added file edits it in place rather than deleting it
+      const header =
+        file.diffHeader[0] === '--- /dev/null'
+          ? [`--- a/${filePath}`, file.diffHeader[1]]
+          : file.diffHeader;
+      const patch = buildPatch({ ...file, diffHeader: header }, buildPartialHunk(hunk, selected));
+      const cached = this.git.getMode() === 'staged';
+      await this.git.applyReverse(patch, cached);
+      await this.pushReject({ filePath, hunkId, forwardPatch: patch, cached });
+    }
+
+    this.statuses.get(filePath)?.delete(hunkId);
+    return this.reparse(filePath, file);
+  }
+
+  /**
+   * Replace the new side of a hunk with edited lines, in the working tree or in
+   * the index when reviewing staged changes. With `approve`, the changes the
+   * edit leaves in place of the hunk are approved.
+   * Returns the updated DiffFile after re-parsing.
+   */
+  async editHunk(
+    filePath: string,
+    hunkId: string,
+    file: DiffFile,
+    lines: string[],
+    approve: boolean,
+  ): Promise<DiffFile | null> {
+    const hunk = file.hunks.find((h) => h.id === hunkId);
+    if (!hunk) {
+      return null;
+    }
+    if (hunk.readOnly) {
+      throw new Error('Committed changes are read-only and cannot be edited.');
+    }
+    if (hunk.meta || file.isDeleted || file.isBinary) {
+      throw new Error('Only line changes can be edited.');
+    }
+    return this.replaceLines(filePath, hunk, file, lines, { type: 'edit', approve });
+  }
+
+  /**
+   * Reject a hunk in favour of the reviewer's own text: its added lines are
+   * replaced with `lines`, and what the diff then shows in their place is
+   * approved, since the reviewer wrote it. One undo puts the added lines back
+   * and drops that approval.
+   * Returns the updated DiffFile after re-parsing.
+   */
+  async rejectWithSuggestion(
+    filePath: string,
+    hunkId: string,
+    file: DiffFile,
+    lines: string[],
+  ): Promise<DiffFile | null> {
+    const hunk = file.hunks.find((h) => h.id === hunkId);
+    if (!hunk) {
+      return null;
+    }
+    this.checkRejectable(hunk);
+    if (hunk.meta || file.isDeleted || file.isBinary) {
+      throw new Error('Only line changes can be replaced with a suggestion.');
+    }
+    return this.replaceLines(filePath, hunk, file, lines, {
+      type: 'suggest',
+      approve: true,
+      keepContext: true,
+    });
+  }
+
+  /**
+   * Resolve one conflict of a file in the working tree, taking our side, their
+   * side, both, or the reviewer's `lines` for 'edit'. Once no conflicts are
+   * left the file is marked resolved in the index.
+   * Returns the updated DiffFile after re-parsing.
+   */
+  async resolveConflict(
+    filePath: string,
+    file: DiffFile,
+    conflictIndex: number,
+    resolution: ConflictResolution,
+    lines: string[] = [],
+  ): Promise<DiffFile | null> {
+    const conflict = file.conflicts?.[conflictIndex];
+    if (!conflict) {
+      return file;
+    }
+    const resolved = {
+      ours: conflict.ours,
+      theirs: conflict.theirs,
+      both: [...conflict.ours, ...conflict.theirs],
+      edit: lines,
+    }[resolution];
+
+    const content = await this.git.getFileContent(filePath);
+    const { start, end } = conflict;
+    if (!content[start]?.startsWith('<<<<<<<') || !content[end]?.startsWith('>>>>>>>')) {
+      throw new Error('The file changed since its conflicts were read. Refresh and try again.');
+    }
+    const patch = buildEditPatch(filePath, content, start, end - start + 1, resolved)!;
+    await this.git.applyForward(patch);
+
+    const remaining = file.conflicts!.length - 1;
+    const unmerged = remaining === 0 ? await this.git.markResolved(filePath) : undefined;
+    this.pushUndo({
+      type: 'resolve',
+      filePath,
+      hunkId: `conflict:${start + 1}`,
+      editPatch: patch,
+      unmerged,
+      contentHash: await this.currentHash({ filePath }),
+    });
+    return this.reparse(filePath, file);
+  }
+
+  /** Rejected changes kept in the trash, newest first. */
+  async listRejected(): Promise<TrashEntry[]> {
+    return this.trash ? this.trash.list() : [];
+  }
+
+  /**
+   * Re-apply a rejected change from the trash and take it out of the trash and
+   * the undo history. A patch that no longer applies, because the file changed
+   * since, is merged in three ways against the file as it was after the
+   * rejection. Returns the file, and whether that merge left conflict markers.
+   */
+  async restoreRejected(id: string): Promise<{ filePath: string; conflicts: boolean }> {
+    this.checkNoOperation('Re-applying');
+    const entry = await this.trash?.get(id);
+    if (!entry) {
+      throw new Error('The rejected change is no longer in the trash.');
     }
 
+    let conflicts = false;
+    if (entry.metaRestore) {
+      await this.git.restoreMeta(entry.metaRestore);
+    } else if (entry.forwardPatch) {
+      try {
+        await this.git.applyForward(entry.forwardPatch, entry.cached);
+      } catch (err) {
+        if (!entry.baseBlob) {
+          throw err;
+        }
+        conflicts = await this.git.applyThreeWay(
+          entry.forwardPatch,
+          entry.filePath,
+          entry.baseBlob,
+          entry.cached,
+        );
+      }
+    } else if (entry.untrackedInsert) {
+      await this.git.reInsertUntrackedLines(
+        entry.filePath,
+        entry.untrackedInsert.lineIndex,
+        entry.untrackedInsert.lines,
+      );
+    }
+
+    // Undoing the rejection now would apply the change a second time
+    const i = this.undoStack.findIndex((e) => e.trashId === id);
+    if (i !== -1) {
+      const [removed] = this.undoStack.splice(i, 1);
+      if (!removed.joined && this.undoStack[i]?.joined) {
+        this.undoStack[i] = { ...this.undoStack[i], joined: false };
+      }
+      this.persistHistory();
+    }
+    await this.discardRejected(id);
+    return { filePath: entry.filePath, conflicts };
+  }
+
+  /** Delete a rejected change from the trash for good. */
+  async discardRejected(id: string): Promise<void> {
+    await this.trash?.remove(id);
+    this.onTrashChange();
+  }
+
+  /** Delete every rejected change in the trash for good. */
+  async emptyTrash(): Promise<void> {
+    await this.trash?.clear();
+    this.onTrashChange();
+  }
+
+  /**
+   * Undo a specific approval (reset to pending), unstaging the hunk if approving
+   * staged it. Both halves of a moved block go back to pending together.
+   */
+  async undoApprove(filePath: string, hunkId: string): Promise<void> {
     const map = this.statuses.get(filePath);
-    if (map) {
-      map.delete(hunkId);
+    if (!map || map.get(hunkId) !== 'approved') {
+      return;
+    }
+    // Remove the matching undo entry, and that of the other half of a moved block
+    for (let i = this.undoStack.length - 1; i >= 0; i--) {
+      const e = this.undoStack[i];
+      if (e.type !== 'approve' || e.filePath !== filePath || e.hunkId !== hunkId) {
+        continue;
+      }
+      let head = i;
+      while (head > 0 && this.undoStack[head].joined) {
+        head--;
+      }
+      let end = head + 1;
+      while (this.undoStack[end]?.joined) {
+        end++;
+      }
+      let removed: UndoEntry[];
+      if (this.undoStack[head].type === 'approve') {
+        removed = this.undoStack.splice(head, end - head);
+      } else {
+        // One of the approvals of an edit or suggestion; the edit itself stays undoable
+        const moved = this.findFile(filePath)?.hunks.find((h) => h.id === hunkId)?.moved;
+        const isPartner = (other: UndoEntry) =>
+          other.type === 'approve' &&
+          other.filePath === moved?.filePath &&
+          other.hunkId === moved.hunkId;
+        removed = [];
+        for (let j = end - 1; j > head; j--) {
+          if (j === i || isPartner(this.undoStack[j])) {
+            removed.push(...this.undoStack.splice(j, 1));
+          }
+        }
+      }
+      for (const entry of removed) {
+        if (entry.staged) {
+          await this.git.unstageHunk(entry.filePath, entry.hunkId);
+        }
+        this.statuses.get(entry.filePath)?.set(entry.hunkId, 'pending');
+      }
+      this.persistHistory();
+      break;
     }
+    map.set(hunkId, 'pending');
+    this.persist();
+  }
 
-    // Re-parse the file diff to get updated line numbers
-    const freshFiles = await this.git.getFileDiff(filePath);
-    if (freshFiles.length === 0) {
-      this.statuses.delete(filePath);
-      this.persist();
+  /**
+   * Undo the last action, including both halves of a moved block, and keep it
+   * for redo. An action on a file that changed since is dropped instead, with
+   * an error, rather than patching the file blindly. Returns the affected
+   * filePath, and that of the other half when it is in another file, or null
+   * if there is nothing to undo.
+   */
+  async undo(): Promise<{
+    filePath: string;
+    undoneType: UndoEntry['type'];
+    movedFilePath?: string;
+  } | null> {
+    const group = this.popGroup(this.undoStack);
+    if (!group) {
       return null;
     }
+    try {
+      await this.checkUnchanged(group, 'undone');
+    } finally {
+      this.persistHistory();
+    }
 
-    const freshFile = freshFiles[0];
-    this.syncStatuses(freshFile);
-    return freshFile;
+    // Kept in the order they were done, so redo finds each file as it was undone
+    const undone: UndoEntry[] = [];
+    for (const entry of group) {
+      await this.undoEntry(entry);
+      const contentHash =
+        entry.contentHash === undefined ? undefined : await this.currentHash(entry);
+      undone.unshift({ ...entry, timestamp: Date.now(), contentHash, trashId: undefined });
+    }
+    this.redoStack.push(...undone);
+    this.persist();
+    this.persistHistory();
+    const { type, ...files } = this.describeGroup(group);
+    return { ...files, undoneType: type };
+  }
+
+  /**
+   * Redo the last undone action, including both halves of a moved block. Like
+   * undo, an action on a file that changed since is dropped with an error.
+   * Returns the same as undo, or null if there is nothing to redo.
+   */
+  async redo(): Promise<{
+    filePath: string;
+    redoneType: UndoEntry['type'];
+    movedFilePath?: string;
+  } | null> {
+    const group = this.popGroup(this.redoStack)?.reverse();
+    if (!group) {
+      return null;
+    }
+    try {
+      await this.checkUnchanged(group, 'redone');
+    } finally {
+      this.persistHistory();
+    }
+
+    const reparsed = new Map<string, DiffFile>();
+    for (const entry of group) {
+      const redone = await this.redoEntry(entry, reparsed);
+      const write = redone.forwardPatch !== undefined;
+      const contentHash =
+        redone.contentHash === undefined ? undefined : await this.currentHash(redone, write);
+      const trashId =
+        redone.type === 'reject' ? await this.addToTrash(redone, contentHash) : undefined;
+      this.undoStack.push({ ...redone, timestamp: Date.now(), contentHash, trashId });
+    }
+    this.persist();
+    this.persistHistory();
+    const { type, ...files } = this.describeGroup(group);
+    return { ...files, redoneType: type };
+  }
+
+  /**
+   * Clear all review statuses (e.g., on full refresh). The undo history stays,
+   * since undo checks each file before touching it.
+   */
+  clear(): void {
+    this.statuses.clear();
+    this.persist();
+  }
+
+  /**
+   * Build one patch per file containing only its approved hunks, for committing
+   * what was reviewed while leaving pending hunks in the working tree. A binary
+   * file has no patch and is committed whole once its content is approved.
+   */
+  getApprovedPatches(files: DiffFile[]): ApprovedChange[] {
+    const result: ApprovedChange[] = [];
+    for (const file of files) {
+      const filePath = getFilePath(file);
+      const map = this.statuses.get(filePath);
+      let approved = file.hunks.filter((h) => h.id && map?.get(h.id) === 'approved');
+      // The lines of a copy can't be committed without the copy itself
+      if (file.copiedFrom && !approved.some((h) => h.meta === 'copy')) {
+        approved = approved.filter((h) => h.meta);
+      }
+      if (file.isBinary && approved.some((h) => h.meta === 'binary')) {
+        const paths = file.renamedFrom ? [file.renamedFrom, filePath] : [filePath];
+        result.push({ filePath, paths, patch: '', hunkCount: approved.length, binary: true });
+        continue;
+      }
+      if (approved.length > 0) {
+        const renamed = approved.some((h) => h.meta === 'rename');
+        let paths = [filePath];
+        if (file.renamedFrom) {
+          // Without the rename, the line changes are committed to the old path
+          paths = renamed ? [file.renamedFrom, filePath] : [file.renamedFrom];
+        }
+        result.push({
+          filePath,
+          paths,
+          patch: buildCombinedPatch(file, approved),
+          hunkCount: approved.length,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The changed lines covered by approved hunks, per file, so approvals can
+   * be carried over once the same diff is split into hunks differently.
+   */
+  getApprovedLines(files: DiffFile[]): Map<string, Set<string>> {
+    const result = new Map<string, Set<string>>();
+    for (const file of files) {
+      const filePath = getFilePath(file);
+      const map = this.statuses.get(filePath);
+      const lines = new Set<string>();
+      for (const hunk of file.hunks) {
+        if (hunk.id && map?.get(hunk.id) === 'approved') {
+          lineKeys(hunk).forEach((key) => lines.add(key));
+        }
+      }
+      result.set(filePath, lines);
+    }
+    return result;
+  }
+
+  /**
+   * Approve the hunks whose changed lines were all approved before the diff was
+   * split differently, e.g. after changing the granularity. Merging hunks keeps
+   * the approval only if every part was approved; splitting one passes it on
+   * to every part. File-level changes keep their status, as their IDs don't change.
+   */
+  restoreApprovedLines(approved: Map<string, Set<string>>, files: DiffFile[]): void {
+    for (const file of files) {
+      const filePath = getFilePath(file);
+      const lines = approved.get(filePath);
+      if (!lines) {
+        continue;
+      }
+      const existing = this.statuses.get(filePath);
+      const map = new Map<string, HunkStatus>();
+      for (const hunk of file.hunks) {
+        if (!hunk.id || hunk.readOnly) {
+          continue;
+        }
+        const keys = lineKeys(hunk);
+        const wasApproved =
+          keys.length > 0
+            ? keys.every((key) => lines.has(key))
+            : existing?.get(hunk.id) === 'approved';
+        map.set(hunk.id, wasApproved ? 'approved' : 'pending');
+      }
+      this.statuses.set(filePath, map);
+    }
+    this.persist();
   }
 
   /**
-   * Undo a specific approval (reset to pending).
+   * Remove state for files and hunks that are no longer in the diff (e.g., after a commit).
    */
-  undoApprove(filePath: string, hunkId: string): void {
+  pruneCommittedFiles(currentDiffFiles: DiffFile[]): void {
+    const currentIds = new Map<string, Set<string | undefined>>();
+    for (const file of currentDiffFiles) {
+      currentIds.set(getFilePath(file), new Set(file.hunks.map((h) => h.id)));
+    }
+    let changed = false;
+    for (const [path, map] of this.statuses) {
+      const ids = currentIds.get(path);
+      if (!ids) {
+        this.statuses.delete(path);
+        changed = true;
+        continue;
+      }
+      for (const id of map.keys()) {
+        if (!ids.has(id)) {
+          map.delete(id);
+          changed = true;
+        }
+      }
+    }
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Approve the pending hunks `include` accepts; returns how many were approved.
+   * With `joined`, the approvals are undone together with the action before them.
+   */
+  private async approveHunks(
+    filePath: string,
+    file: DiffFile,
+    include: (hunk: DiffHunk) => boolean,
+    joined = false,
+  ): Promise<number> {
     const map = this.statuses.get(filePath);
-    if (map && map.get(hunkId) === 'approved') {
-      map.set(hunkId, 'pending');
-      // Remove matching undo entry from the stack
-      for (let i = this.undoStack.length - 1; i >= 0; i--) {
-        const e = this.undoStack[i];
-        if (e.type === 'approve' && e.filePath === filePath && e.hunkId === hunkId) {
-          this.undoStack.splice(i, 1);
-          break;
+    if (!map) {
+      return 0;
+    }
+    const staged = this.shouldStage();
+    let count = 0;
+    try {
+      for (const hunk of file.hunks) {
+        if (hunk.id && map.get(hunk.id) === 'pending' && include(hunk)) {
+          if (staged) {
+            await this.git.stageHunk(file, hunk.id);
+          }
+          map.set(hunk.id, 'approved');
+          this.pushUndo({ type: 'approve', filePath, hunkId: hunk.id, staged, joined });
+          count++;
+
+          const partner = this.movedPartner(filePath, hunk.id, file);
+          if (partner) {
+            if (staged) {
+              await this.git.stageHunk(partner.file, partner.hunkId);
+            }
+            this.approvePartner(partner, staged);
+          }
         }
       }
+    } finally {
       this.persist();
     }
+    return count;
+  }
+
+  /** Mark the other half of a moved block approved, undone together with the first half. */
+  private approvePartner(partner: { file: DiffFile; hunkId: string }, staged: boolean): void {
+    const filePath = getFilePath(partner.file);
+    this.statuses.get(filePath)?.set(partner.hunkId, 'approved');
+    this.pushUndo({ type: 'approve', filePath, hunkId: partner.hunkId, staged, joined: true });
   }
 
   /**
-   * Undo the last action. Returns the affected filePath or null if stack is empty.
+   * The other half of a moved block, if it is still pending. The statuses of
+   * its file are synced first when that file was not opened yet.
    */
-  async undo(): Promise<{ filePath: string; undoneType: 'approve' | 'reject' } | null> {
-    const entry = this.undoStack.pop();
-    if (!entry) {
-      return null;
+  private movedPartner(
+    filePath: string,
+    hunkId: string,
+    file: DiffFile | undefined,
+  ): { file: DiffFile; hunkId: string } | undefined {
+    const moved = file?.hunks.find((h) => h.id === hunkId)?.moved;
+    if (!moved) {
+      return undefined;
+    }
+    const partnerFile = moved.filePath === filePath ? file : this.findFile(moved.filePath);
+    if (!partnerFile?.hunks.some((h) => h.id === moved.hunkId)) {
+      return undefined;
+    }
+    if (!this.statuses.has(moved.filePath)) {
+      this.syncStatuses(partnerFile);
     }
+    if (this.statuses.get(moved.filePath)?.get(moved.hunkId) !== 'pending') {
+      return undefined;
+    }
+    return { file: partnerFile, hunkId: moved.hunkId };
+  }
 
+  private async undoEntry(entry: UndoEntry): Promise<void> {
     if (entry.type === 'approve') {
+      if (entry.staged) {
+        await this.git.unstageHunk(entry.filePath, entry.hunkId);
+      }
       const map = this.statuses.get(entry.filePath);
       if (map && map.has(entry.hunkId)) {
         map.set(entry.hunkId, 'pending');
       }
+    } else if (entry.type === 'edit' || entry.type === 'suggest') {
+      await this.git.applyReverse(entry.editPatch!, entry.cached);
+    } else if (entry.type === 'resolve') {
+      if (entry.unmerged) {
+        await this.git.markUnresolved(entry.filePath, entry.unmerged);
+      }
+      await this.git.applyReverse(entry.editPatch!);
     } else if (entry.type === 'reject') {
-      if (entry.forwardPatch) {
-        await this.git.applyForward(entry.forwardPatch);
+      if (entry.metaRestore) {
+        await this.git.restoreMeta(entry.metaRestore);
+      } else if (entry.forwardPatch) {
+        await this.git.applyForward(entry.forwardPatch, entry.cached);
       } else if (entry.untrackedInsert) {
         await this.git.reInsertUntrackedLines(
           entry.filePath,
@@ -239,36 +930,311 @@ export class StateManager {
           entry.untrackedInsert.lines,
         );
       }
+      if (entry.trashId) {
+        await this.trash?.remove(entry.trashId);
+        this.onTrashChange();
+      }
     }
-
-    this.persist();
-    return { filePath: entry.filePath, undoneType: entry.type };
   }
 
   /**
-   * Clear all state (e.g., on full refresh).
+   * Do an undone action again. Returns its entry with what changed about it,
+   * such as how to undo a rename that was rejected anew.
    */
-  clear(): void {
-    this.statuses.clear();
-    this.undoStack = [];
-    this.persist();
+  private async redoEntry(entry: UndoEntry, reparsed: Map<string, DiffFile>): Promise<UndoEntry> {
+    const { filePath, hunkId } = entry;
+    const gone = () =>
+      new Error(
+        `The change to ${filePath} is no longer in the diff, so its ${ACTION_NAMES[entry.type]} can't be redone.`,
+      );
+
+    if (entry.type === 'approve') {
+      const map = this.statuses.get(filePath);
+      if (!map?.has(hunkId)) {
+        throw gone();
+      }
+      if (entry.staged) {
+        const file = reparsed.get(filePath) ?? this.findFile(filePath);
+        if (!file) {
+          throw gone();
+        }
+        await this.git.stageHunk(file, hunkId);
+      }
+      map.set(hunkId, 'approved');
+      return entry;
+    }
+    if (entry.type === 'edit' || entry.type === 'suggest') {
+      await this.git.applyForward(entry.editPatch!, entry.cached);
+      // Approvals redone along with it need the hunks the edit brings back
+      const file = await this.reparse(filePath, this.findFile(filePath) ?? {});
+      if (file) {
+        reparsed.set(filePath, file);
+      }
+      return entry;
+    }
+    if (entry.type === 'resolve') {
+      await this.git.applyForward(entry.editPatch!);
+      const unmerged = entry.unmerged ? await this.git.markResolved(filePath) : undefined;
+      return { ...entry, unmerged };
+    }
+
+    this.checkNoOperation('Rejecting');
+    let { metaRestore } = entry;
+    if (entry.forwardPatch) {
+      await this.git.applyReverse(entry.forwardPatch, entry.cached);
+    } else if (entry.untrackedInsert) {
+      const { lineIndex, lines } = entry.untrackedInsert;
+      await this.git.rejectUntrackedHunk(filePath, {
+        newStart: lineIndex + 1,
+        newCount: lines.length,
+      });
+    } else if (metaRestore) {
+      const file = this.findFile(filePath);
+      const hunk = file?.hunks.find((h) => h.id === hunkId);
+      if (!file || !hunk) {
+        throw gone();
+      }
+      metaRestore = file.isDeleted
+        ? await this.git.restoreDeletedFile(filePath)
+        : await this.git.revertMeta(file, hunk);
+    }
+    this.statuses.get(filePath)?.delete(hunkId);
+    return { ...entry, metaRestore };
+  }
+
+  private checkRejectable(hunk: DiffHunk): void {
+    if (hunk.readOnly) {
+      throw new Error('Committed changes are read-only and cannot be rejected.');
+    }
+    this.checkNoOperation('Rejecting');
+  }
+
+  /** Refuse to rewrite files while a rebase, merge or similar operation is in progress. */
+  private checkNoOperation(action: string): void {
+    if (this.operation) {
+      throw new Error(`${action} is disabled while a ${this.operation} is in progress.`);
+    }
+  }
+
+  /** Revert one hunk on disk or in the index and forget its status. */
+  private async rejectHunk(
+    filePath: string,
+    hunk: DiffHunk,
+    file: DiffFile,
+    joined?: boolean,
+  ): Promise<void> {
+    const hunkId = hunk.id!;
+    if (file.isDeleted) {
+      // A deletion is one change: rejecting it restores the whole file
+      const metaRestore = await this.git.restoreDeletedFile(filePath);
+      await this.pushReject({ filePath, hunkId, metaRestore, joined });
+    } else if (hunk.meta) {
+      const metaRestore = await this.git.revertMeta(file, hunk);
+      await this.pushReject({ filePath, hunkId, metaRestore, joined });
+    } else if (file.isUntracked) {
+      await this.git.rejectUntrackedHunk(filePath, hunk);
+      await this.pushReject({
+        filePath,
+        hunkId,
+        untrackedInsert: {
+          lineIndex: hunk.newStart - 1,
+          lines: hunk.lines.map((l) => l.content),
+        },
+        joined,
+      });
+    } else {
+      const patch = buildPatch(file, hunk);
+      const cached = this.git.getMode() === 'staged';
+      await this.git.applyReverse(patch, cached);
+      await this.pushReject({ filePath, hunkId, forwardPatch: patch, cached, joined });
+    }
+    this.statuses.get(filePath)?.delete(hunkId);
   }
 
   /**
-   * Remove files that are no longer in the diff (e.g., after a commit).
+   * Replace the new side of a hunk with `lines`, in the working tree or in the
+   * index when reviewing staged changes, and re-diff the file. With
+   * `keepContext`, the context lines around the hunk's changes stay as they are.
+   * With `approve`, the changes the diff then shows in place of the hunk are approved.
    */
-  pruneCommittedFiles(currentDiffFiles: DiffFile[]): void {
-    const currentPaths = new Set(currentDiffFiles.map((f) => f.newPath || f.oldPath));
-    let changed = false;
-    for (const path of this.statuses.keys()) {
-      if (!currentPaths.has(path)) {
-        this.statuses.delete(path);
-        changed = true;
+  private async replaceLines(
+    filePath: string,
+    hunk: DiffHunk,
+    file: DiffFile,
+    lines: string[],
+    options: { type: 'edit' | 'suggest'; approve: boolean; keepContext?: boolean },
+  ): Promise<DiffFile | null> {
+    const content = await this.git.getFileContent(filePath);
+    const start = Math.max(hunk.newStart - 1, 0);
+    // Compared without whitespace, which the diff may have been told to ignore
+    const squash = (text: string) => text.replace(/\s+/g, '');
+    const shown = hunk.lines.filter((l) => l.type !== 'remove');
+    if (shown.some((l, i) => squash(l.content) !== squash(content[start + i] ?? ''))) {
+      throw new Error('The file changed since its diff was shown. Refresh and try again.');
+    }
+
+    let leading = 0;
+    let trailing = 0;
+    if (options.keepContext) {
+      while (hunk.lines[leading]?.type === 'context') {
+        leading++;
+      }
+      while (
+        trailing < shown.length - leading &&
+        hunk.lines[hunk.lines.length - 1 - trailing].type === 'context'
+      ) {
+        trailing++;
       }
     }
-    if (changed) {
+    const count = shown.length - leading - trailing;
+    const patch = buildEditPatch(filePath, content, start + leading, count, lines);
+    if (!patch) {
+      return file;
+    }
+
+    const cached = this.git.getMode() === 'staged';
+    await this.git.applyForward(patch, cached);
+    const edit = { type: options.type, filePath, hunkId: hunk.id!, editPatch: patch, cached };
+    this.pushUndo({ ...edit, contentHash: await this.currentHash(edit) });
+    this.statuses.get(filePath)?.delete(hunk.id!);
+
+    const before = new Set(file.hunks.map((h) => h.id));
+    const freshFile = await this.reparse(filePath, file);
+    if (freshFile && options.approve) {
+      // Undone and redone together with the edit
+      await this.approveHunks(filePath, freshFile, (h) => !before.has(h.id), true);
+    }
+    return freshFile;
+  }
+
+  /** Re-parse a file's diff to get updated line numbers; null once it has no changes left. */
+  private async reparse(
+    filePath: string,
+    file: Pick<DiffFile, 'renamedFrom' | 'copiedFrom'>,
+  ): Promise<DiffFile | null> {
+    const freshFiles = await this.git.getFileDiff(filePath, file.renamedFrom ?? file.copiedFrom);
+    if (freshFiles.length === 0) {
+      this.statuses.delete(filePath);
       this.persist();
+      return null;
+    }
+    const freshFile = freshFiles[0];
+    this.syncStatuses(freshFile);
+    return freshFile;
+  }
+
+  /** Record a new action for undo; it replaces whatever could be redone. */
+  private pushUndo(entry: Omit<UndoEntry, 'timestamp'>): void {
+    this.undoStack.push({ ...entry, timestamp: Date.now() });
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.splice(0, this.undoStack.length - MAX_HISTORY);
+      this.undoStack[0] = { ...this.undoStack[0], joined: false };
     }
+    this.redoStack = [];
+    this.persistHistory();
+  }
+
+  /** Record a rejection for undo, and in the trash so it can be re-applied after a restart. */
+  private async pushReject(entry: Omit<UndoEntry, 'type' | 'timestamp'>): Promise<void> {
+    const rejection = { ...entry, type: 'reject' as const };
+    // The file right after the rejection is what the patch merges into later
+    const contentHash = await this.currentHash(rejection, entry.forwardPatch !== undefined);
+    const trashId = await this.addToTrash(rejection, contentHash);
+    this.pushUndo({ ...rejection, contentHash, trashId });
+  }
+
+  /** Keep a rejected change in the trash; returns its trash ID, if it could be stored. */
+  private async addToTrash(
+    entry: Omit<UndoEntry, 'timestamp'>,
+    contentHash: string | null | undefined,
+  ): Promise<string | undefined> {
+    if (!this.trash) {
+      return undefined;
+    }
+    const { filePath, forwardPatch, cached, untrackedInsert, metaRestore } = entry;
+    try {
+      const stored = await this.trash.add({
+        filePath,
+        timestamp: Date.now(),
+        forwardPatch,
+        cached,
+        untrackedInsert,
+        metaRestore,
+        // A rejection that removed the file leaves an empty base to merge into
+        baseBlob:
+          forwardPatch && contentHash !== undefined
+            ? (contentHash ?? (await this.git.nullObject()))
+            : undefined,
+      });
+      this.onTrashChange();
+      return stored.id;
+    } catch {
+      // The change is rejected all the same; only undo can bring it back
+      return undefined;
+    }
+  }
+
+  /**
+   * Object hash of the file an action rewrote, in the index when the action
+   * only touched the index, or null if the file doesn't exist. With `write`
+   * the content is stored as a blob too.
+   */
+  private currentHash(
+    entry: Pick<UndoEntry, 'filePath' | 'cached' | 'metaRestore'>,
+    write = false,
+  ): Promise<string | null> {
+    const cached = entry.cached || entry.metaRestore?.scope === 'staged';
+    return this.git.hashFile(entry.filePath, cached, write).catch(() => null);
+  }
+
+  /**
+   * Throw if a file an undo or redo would patch changed since the action. Only
+   * the first entry of each file is checked: the others follow from it.
+   */
+  private async checkUnchanged(group: UndoEntry[], verb: 'undone' | 'redone'): Promise<void> {
+    const checked = new Set<string>();
+    for (const entry of group) {
+      if (entry.contentHash === undefined || checked.has(entry.filePath)) {
+        continue;
+      }
+      checked.add(entry.filePath);
+      if ((await this.currentHash(entry)) !== entry.contentHash) {
+        const hint =
+          verb === 'undone' && entry.trashId ? ' Re-apply it from Rejected Changes instead.' : '';
+        throw new Error(
+          `${entry.filePath} changed after the ${ACTION_NAMES[entry.type]}, so it can't be ${verb}.${hint}`,
+        );
+      }
+    }
+  }
+
+  /** Pop the last entry of a history stack together with the entries joined to it, last first. */
+  private popGroup(stack: UndoEntry[]): UndoEntry[] | undefined {
+    const group: UndoEntry[] = [];
+    let entry = stack.pop();
+    while (entry) {
+      group.push(entry);
+      if (!entry.joined) {
+        break;
+      }
+      entry = stack.pop();
+    }
+    return group.length > 0 ? group : undefined;
+  }
+
+  /** The action of an undone or redone group, its file, and that of a moved block's other half. */
+  private describeGroup(group: UndoEntry[]): {
+    type: UndoEntry['type'];
+    filePath: string;
+    movedFilePath?: string;
+  } {
+    const first = group.find((e) => !e.joined) ?? group[0];
+    const moved = group.find((e) => e !== first && e.filePath !== first.filePath);
+    return { type: first.type, filePath: first.filePath, movedFilePath: moved?.filePath };
+  }
+
+  private shouldStage(): boolean {
+    return this.stageOnApprove && this.git.getMode() !== 'staged';
   }
 
   private persist(): void {
@@ -288,14 +1254,30 @@ export class StateManager {
         data[filePath] = obj;
       }
     }
-    this.storage.update(STORAGE_KEY, data);
+    this.storage.update(this.storageKey, data);
+  }
+
+  private branchesKey(): string {
+    return BRANCHES_KEY + this.baseKey.slice(STORAGE_KEY.length);
+  }
+
+  private historyKey(): string {
+    return HISTORY_KEY + this.storageKey.slice(STORAGE_KEY.length);
+  }
+
+  private persistHistory(): void {
+    const history: History = { undo: this.undoStack, redo: this.redoStack };
+    this.storage?.update(this.historyKey(), history);
   }
 
   private restoreFromStorage(): void {
     if (!this.storage) {
       return;
     }
-    const data = this.storage.get<Record<string, Record<string, HunkStatus>>>(STORAGE_KEY);
+    const history = this.storage.get<History>(this.historyKey());
+    this.undoStack = history?.undo ?? [];
+    this.redoStack = history?.redo ?? [];
+    const data = this.storage.get<Record<string, Record<string, HunkStatus>>>(this.storageKey);
     if (!data) {
       return;
     }
@@ -309,10 +1291,8 @@ export class StateManager {
   }
 }
 
-/**
- * Build a valid unified diff patch string for a single hunk,
- * suitable for piping to `git apply`.
- */
-function buildPatch(file: DiffFile, hunk: DiffHunk): string {
-  return [...file.diffHeader, ...hunk.rawLines].join('\n') + '\n';
+/** Identify a hunk's changed lines by side and line number, independent of how the diff was split. */
+function lineKeys(hunk: DiffHunk): string[] {
+  const { removed, added } = changedLineNumbers(hunk);
+  return [...removed.map((n) => `-${n}`), ...added.map((n) => `+${n}`)];
 }
@@ -14,8 +14,57 @@ export interface DiffHunk {
   rawLines: string[];
   /** Content-based ID for stable tracking across re-parses */
   id?: string;
+  /** True for changes already committed between the base ref and HEAD (not actionable) */
+  readOnly?: boolean;
+  /**
+   * Set for synthetic hunks representing a file-level change (rename, copy,
+   * mode change or binary content) rather than lines; `header` holds its description.
+   */
+  meta?: MetaChangeKind;
+  /** Set when ignoring whitespace and the hunk changes nothing but whitespace */
+  whitespaceOnly?: boolean;
+  /**
+   * Set when the hunk only removes lines that another hunk adds, or the other
+   * way round: the two halves of a moved block, reviewed as one.
+   */
+  moved?: MovedLink;
 }
 
+/** The other half of a moved block, in the same file or another file of the repository. */
+export interface MovedLink {
+  filePath: string;
+  hunkId: string;
+  /** First changed line of the other half: an old line number for a removal, a new one for an addition */
+  line: number;
+}
+
+/**
+ * File-level changes; 'delete' stands in for the lines of a deleted empty file
+ * and 'binary' for the whole content of a binary file.
+ */
+export type MetaChangeKind = 'rename' | 'copy' | 'mode' | 'delete' | 'binary';
+
+/**
+ * A conflict left in the working tree by a merge, rebase, cherry-pick or
+ * similar: the lines between its `<<<<<<<` and `>>>>>>>` markers.
+ */
+export interface ConflictRegion {
+  /** 0-indexed line of the `<<<<<<<` marker */
+  start: number;
+  /** 0-indexed line of the `>>>>>>>` marker */
+  end: number;
+  ours: string[];
+  theirs: string[];
+  /** The common ancestor's lines, with the diff3 and zdiff3 conflict styles */
+  base?: string[];
+  /** What the markers name each side, e.g. `HEAD` and a branch */
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+/** How to resolve a conflict; 'edit' takes the reviewer's own lines. */
+export type ConflictResolution = 'ours' | 'theirs' | 'both' | 'edit';
+
 export interface DiffFile {
   oldPath: string;
   newPath: string;
@@ -25,9 +74,89 @@ export interface DiffFile {
   diffHeader: string[];
   /** True for files not yet tracked by git (new, never staged) */
   isUntracked?: boolean;
+  /** True for deleted files; `newPath` is then `/dev/null` unless the file was empty */
+  isDeleted?: boolean;
+  /** Root of the repository the file belongs to (set by GitAdapter) */
+  repoRoot?: string;
+  /** Set when the path is a submodule whose recorded commit or worktree changed */
+  submodule?: SubmoduleChange;
+  /** Source path when git detected that the file was renamed from another path */
+  renamedFrom?: string;
+  /** Source path when git detected that the file was copied from another path */
+  copiedFrom?: string;
+  /** Similarity to the rename or copy source, in percent */
+  similarity?: number;
+  /**
+   * File modes (e.g. `100644` → `100755`), set only when the mode changed.
+   * A deleted file has only `oldMode`.
+   */
+  oldMode?: string;
+  newMode?: string;
+  /** Abbreviated object names of the old and new content, from the diff's `index` line */
+  oldBlob?: string;
+  newBlob?: string;
+  /**
+   * Size in bytes of a diff over the per-file limit. Its hunks were dropped
+   * unparsed; the file is loaded in full only when opened.
+   */
+  tooLarge?: number;
+  /**
+   * Unresolved merge conflicts in the working tree. They are reviewed in place
+   * of the hunks overlapping them, which are left out of `hunks`.
+   */
+  conflicts?: ConflictRegion[];
+}
+
+/**
+ * A submodule pointer change, parsed from the `Subproject commit` lines git
+ * emits instead of content hunks. Either SHA is missing when the submodule
+ * was added or removed.
+ */
+export interface SubmoduleChange {
+  oldSha?: string;
+  newSha?: string;
+  /** The submodule's working tree has uncommitted changes */
+  dirty: boolean;
 }
 
-export type HunkStatus = 'pending' | 'approved' | 'rejected';
+/**
+ * Which changes are reviewed: everything vs HEAD, only the index vs HEAD,
+ * or only the working tree vs the index.
+ */
+export type ReviewMode = 'all' | 'staged' | 'unstaged';
+
+/** A multi-step git operation paused in the working tree, waiting for the user. */
+export type RepoOperation = 'rebase' | 'am' | 'merge' | 'cherry-pick' | 'revert' | 'bisect';
+
+/** Where HEAD points and which git operation, if any, is in progress. */
+export interface RepoState {
+  /** Checked-out branch, or the branch being rebased; undefined when HEAD is detached */
+  branch?: string;
+  operation?: RepoOperation;
+}
+
+export type HunkStatus = 'pending' | 'approved' | 'rejected' | 'committed';
+
+/**
+ * The unit hunks are reviewed in: one card per group of adjacent changed
+ * lines, groups merged when only a few context lines separate them, or git's
+ * own hunks with their context lines.
+ */
+export type HunkGranularity = 'change' | 'nearby' | 'hunk';
+
+/**
+ * Which whitespace differences don't count as changes: none, changes in the
+ * amount of whitespace (`--ignore-space-change`) or all whitespace (`--ignore-all-space`).
+ */
+export type IgnoreWhitespace = 'none' | 'change' | 'all';
+
+/** Settings the webview needs, sent whenever they change. */
+export interface WebviewConfig {
+  /** Scroll to the next pending hunk after acting on one */
+  autoScroll: boolean;
+  /** Rejecting takes a second click to confirm */
+  confirmReject: boolean;
+}
 
 export interface HunkState {
   filePath: string;
@@ -36,13 +165,125 @@ export interface HunkState {
 }
 
 export interface UndoEntry {
-  type: 'approve' | 'reject';
+  type: 'approve' | 'reject' | 'edit' | 'suggest' | 'resolve';
   filePath: string;
   hunkId: string;
+  /** When the action happened (ms since epoch), to order undo across repositories */
+  timestamp: number;
   /** For reject undo of tracked files: the forward patch to re-apply via git apply */
   forwardPatch?: string;
+  /**
+   * For edit, suggestion and resolve undo: the patch that replaced the lines
+   * of the hunk or conflict, reverse-applied to bring them back
+   */
+  editPatch?: string;
+  /** True when the patch was applied to the index (staged mode) rather than the working tree */
+  cached?: boolean;
+  /** For approve undo: the hunk was staged on approval and must be unstaged */
+  staged?: boolean;
   /** For reject undo of untracked files: lines to re-insert at the given 0-indexed position */
   untrackedInsert?: { lineIndex: number; lines: string[] };
+  /** For reject undo of a file-level change or deletion: how to redo it */
+  metaRestore?: MetaRestore;
+  /**
+   * For resolve undo: the unmerged index entries replaced when resolving the
+   * last conflict marked the file resolved
+   */
+  unmerged?: UnmergedEntry[];
+  /** For reject undo: the change's entry in the trash, which is dropped once it is undone */
+  trashId?: string;
+  /**
+   * For actions that rewrite a file: its object hash right after the action,
+   * in the index when only the index changed, or null if the file was gone.
+   * A file that no longer matches is not patched by undo or redo.
+   */
+  contentHash?: string | null;
+  /**
+   * Undone together with the entry below it: the other half of a moved block,
+   * or an approval made along with an edit or suggestion
+   */
+  joined?: boolean;
+}
+
+/**
+ * A rejected change kept in the repository's trash, so it can be re-applied
+ * after its undo entry is gone, e.g. after a restart. It holds the same fields
+ * as the reject's undo entry.
+ */
+export interface TrashEntry {
+  id: string;
+  filePath: string;
+  /** When the change was rejected (ms since epoch) */
+  timestamp: number;
+  forwardPatch?: string;
+  cached?: boolean;
+  untrackedInsert?: { lineIndex: number; lines: string[] };
+  metaRestore?: MetaRestore;
+  /**
+   * The blob the forward patch applies to, i.e. the file right after the
+   * rejection, so the change can be merged in once the file has changed.
+   * All zeros when the rejection removed the file.
+   */
+  baseBlob?: string;
+}
+
+/** A path's entry in the git index. */
+export interface IndexEntry {
+  mode: string;
+  sha: string;
+}
+
+/** One side of an unresolved conflict in the git index: 1 is the common ancestor, 2 ours, 3 theirs. */
+export interface UnmergedEntry extends IndexEntry {
+  stage: number;
+}
+
+/**
+ * What GitAdapter needs to redo a rejected rename, copy, mode change, deletion
+ * or binary change.
+ * `scope` is the review mode at rejection time: 'staged' touched only the
+ * index, 'unstaged' only the working tree and 'all' both.
+ */
+export type MetaRestore =
+  | { kind: 'rename'; from: string; to: string; scope: ReviewMode; entry?: IndexEntry }
+  | { kind: 'copy'; path: string; scope: ReviewMode; entry?: IndexEntry; blob?: string }
+  | { kind: 'mode'; path: string; mode: string; scope: ReviewMode }
+  | { kind: 'delete'; path: string; scope: ReviewMode; entry?: IndexEntry }
+  | { kind: 'binary'; path: string; scope: ReviewMode; entry?: IndexEntry; blob?: string };
+
+/** Half-open character range `[start, end)` within a diff line's content. */
+export type CharRange = [number, number];
+
+/**
+ * The changed words of one hunk's lines, keyed by index into the hunk's `lines`.
+ * Lines without an entry are marked as changed as a whole.
+ */
+export type HunkWordRanges = Record<number, CharRange[]>;
+
+/** One side of a binary file as shown in the diff view. */
+export interface BinarySide {
+  size: number;
+  /** Git object name of the content */
+  sha: string;
+  /** The content as a data URI, for images small enough to preview */
+  dataUri?: string;
+}
+
+/** Both sides of a binary file; a side is missing when the file was added or deleted. */
+export interface BinaryPreview {
+  old?: BinarySide;
+  new?: BinarySide;
+}
+
+/** The approved hunks of one file, ready to commit. */
+export interface ApprovedChange {
+  filePath: string;
+  /** Every path the change touches, including the source of a rename */
+  paths: string[];
+  /** Patch of the approved hunks; empty for binary files, which are committed whole */
+  patch: string;
+  hunkCount: number;
+  binary?: boolean;
 }
 
 // Extension → Webview messages
@@ -53,16 +294,61 @@ export type ExtToWebviewMessage =
       hunkStatuses: HunkStatus[];
       fileContent: string[];
       highlightedLines: string[];
+      /** Changed words per hunk, in the order of `file.hunks` */
+      wordRanges: HunkWordRanges[];
+      binary?: BinaryPreview;
     }
   | { command: 'updateHunk'; hunkIndex: number; status: HunkStatus }
+  | { command: 'config'; config: WebviewConfig }
+  | { command: 'repoState'; operation?: RepoOperation }
+  | { command: 'revealHunk'; hunkId: string }
   | { command: 'clear' };
 
 // Webview → Extension messages
 export type WebviewToExtMessage =
   | { command: 'ready' }
-  | { command: 'approve'; filePath: string; hunkIndex: number }
-  | { command: 'reject'; filePath: string; hunkIndex: number }
-  | { command: 'approveAll'; filePath: string }
-  | { command: 'rejectAll'; filePath: string }
-  | { command: 'undo'; filePath: string; hunkIndex: number }
-  | { command: 'openInEditor'; filePath: string };
+  | { command: 'setAutoScroll'; value: boolean }
+  | { command: 'approve'; repoRoot: string; filePath: string; hunkIndex: number }
+  | { command: 'reject'; repoRoot: string; filePath: string; hunkIndex: number }
+  | {
+      command: 'rejectLines';
+      repoRoot: string;
+      filePath: string;
+      hunkIndex: number;
+      /** Indexes into the hunk's `lines` */
+      lineIndexes: number[];
+    }
+  | {
+      command: 'editHunk';
+      repoRoot: string;
+      filePath: string;
+      hunkIndex: number;
+      /** The new side of the hunk as edited */
+      lines: string[];
+      /** Approve what the edit leaves in place of the hunk */
+      approve: boolean;
+    }
+  | {
+      command: 'rejectWithSuggestion';
+      repoRoot: string;
+      filePath: string;
+      hunkIndex: number;
+      /** Replacement for the hunk's added lines */
+      lines: string[];
+    }
+  | {
+      command: 'resolveConflict';
+      repoRoot: string;
+      filePath: string;
+      /** Index into the file's `conflicts` */
+      conflictIndex: number;
+      resolution: ConflictResolution;
+      /** The reviewer's lines, for the 'edit' resolution */
+      lines?: string[];
+    }
+  | { command: 'approveAll'; repoRoot: string; filePath: string }
+  | { command: 'approveWhitespace'; repoRoot: string; filePath: string }
+  | { command: 'rejectAll'; repoRoot: string; filePath: string }
+  | { command: 'undo'; repoRoot: string; filePath: string; hunkIndex: number }
+  | { command: 'showMoved'; repoRoot: string; filePath: string; hunkId: string }
+  | { command: 'openInEditor'; repoRoot: string; filePath: string };
@@ -1,33 +1,75 @@
 import * as vscode from 'vscode';
-import { DiffFile, HunkStatus, WebviewToExtMessage } from '../types';
+import { getFilePath } from '../git/diffParser';
+import {
+  BinaryPreview,
+  DiffFile,
+  HunkStatus,
+  HunkWordRanges,
+  RepoOperation,
+  WebviewConfig,
+  WebviewToExtMessage,
+} from '../types';
 
 interface FileData {
   file: DiffFile;
   statuses: HunkStatus[];
   fileContent: string[];
   highlightedLines: string[];
+  wordRanges: HunkWordRanges[];
+  binary?: BinaryPreview;
 }
 
 export class DiffPanelProvider {
-  /** Track one panel per file path */
+  /** Track one panel per repository + file path (see panelKey) */
   private panels = new Map<string, vscode.WebviewPanel>();
   /** Pending data to send once the webview signals 'ready' */
   private pendingData = new Map<string, FileData>();
+  /** Hunk to scroll to once a panel's pending data has been shown */
+  private pendingReveal = new Map<string, string>();
+  /** repoRoot → git operation in progress there, which disables rejecting */
+  private operations = new Map<string, RepoOperation>();
 
   constructor(
     private extensionUri: vscode.Uri,
+    private webviewConfig: WebviewConfig,
     private onMessage: (msg: WebviewToExtMessage) => void,
-    private onPanelFocus?: (filePath: string) => void,
+    private onPanelFocus?: (repoRoot: string, filePath: string) => void,
   ) {}
 
+  /** Tell the panels of a repository whether a rebase, merge, etc. is in progress. */
+  setOperation(repoRoot: string, operation: RepoOperation | undefined): void {
+    if (operation) {
+      this.operations.set(repoRoot, operation);
+    } else {
+      this.operations.delete(repoRoot);
+    }
+    for (const [key, panel] of this.panels) {
+      if (key.startsWith(panelKey(repoRoot, ''))) {
+        panel.webview.postMessage({ command: 'repoState', operation });
+      }
+    }
+  }
+
+  /** Apply changed settings to every open panel, and to panels opened later. */
+  setWebviewConfig(config: WebviewConfig): void {
+    this.webviewConfig = config;
+    for (const panel of this.panels.values()) {
+      panel.webview.postMessage({ command: 'config', config });
+    }
+  }
+
   showFile(
     file: DiffFile,
     statuses: HunkStatus[],
     fileContent: string[],
     highlightedLines: string[],
+    wordRanges: HunkWordRanges[],
+    binary?: BinaryPreview,
   ): void {
-    const filePath = file.newPath || file.oldPath;
-    const existing = this.panels.get(filePath);
+    const filePath = getFilePath(file);
+    const repoRoot = file.repoRoot ?? '';
+    const key = panelKey(repoRoot, filePath);
+    const existing = this.panels.get(key);
 
     if (existing) {
       existing.reveal(vscode.ViewColumn.One);
@@ -37,6 +79,8 @@ export class DiffPanelProvider {
         hunkStatuses: statuses,
         fileContent,
         highlightedLines,
+        wordRanges,
+        binary,
       });
       return;
     }
@@ -57,11 +101,23 @@ export class DiffPanelProvider {
 
     panel.webview.html = this.getHtml(panel.webview);
 
-    this.pendingData.set(filePath, { file, statuses, fileContent, highlightedLines });
+    this.pendingData.set(key, {
+      file,
+      statuses,
+      fileContent,
+      highlightedLines,
+      wordRanges,
+      binary,
+    });
 
     panel.webview.onDidReceiveMessage((msg: WebviewToExtMessage) => {
       if (msg.command === 'ready') {
-        const pending = this.pendingData.get(filePath);
+        panel.webview.postMessage({ command: 'config', config: this.webviewConfig });
+        panel.webview.postMessage({
+          command: 'repoState',
+          operation: this.operations.get(repoRoot),
+        });
+        const pending = this.pendingData.get(key);
         if (pending) {
           panel.webview.postMessage({
             command: 'showFile',
@@ -69,8 +125,15 @@ export class DiffPanelProvider {
             hunkStatuses: pending.statuses,
             fileContent: pending.fileContent,
             highlightedLines: pending.highlightedLines,
+            wordRanges: pending.wordRanges,
+            binary: pending.binary,
           });
-          this.pendingData.delete(filePath);
+          this.pendingData.delete(key);
+        }
+        const hunkId = this.pendingReveal.get(key);
+        if (hunkId) {
+          panel.webview.postMessage({ command: 'revealHunk', hunkId });
+          this.pendingReveal.delete(key);
         }
         return;
       }
@@ -79,20 +142,21 @@ export class DiffPanelProvider {
 
     panel.onDidChangeViewState((e) => {
       if (e.webviewPanel.active && this.onPanelFocus) {
-        this.onPanelFocus(filePath);
+        this.onPanelFocus(repoRoot, filePath);
       }
     });
 
     panel.onDidDispose(() => {
-      this.panels.delete(filePath);
-      this.pendingData.delete(filePath);
+      this.panels.delete(key);
+      this.pendingData.delete(key);
+      this.pendingReveal.delete(key);
     });
 
-    this.panels.set(filePath, panel);
+    this.panels.set(key, panel);
   }
 
-  updateHunk(filePath: string, hunkIndex: number, status: HunkStatus): void {
-    const panel = this.panels.get(filePath);
+  updateHunk(repoRoot: string, filePath: string, hunkIndex: number, status: HunkStatus): void {
+    const panel = this.panels.get(panelKey(repoRoot, filePath));
     if (panel) {
       panel.webview.postMessage({ command: 'updateHunk', hunkIndex, status });
     }
@@ -103,9 +167,11 @@ export class DiffPanelProvider {
     statuses: HunkStatus[],
     fileContent: string[],
     highlightedLines: string[],
+    wordRanges: HunkWordRanges[],
+    binary?: BinaryPreview,
   ): void {
-    const filePath = file.newPath || file.oldPath;
-    const panel = this.panels.get(filePath);
+    const filePath = getFilePath(file);
+    const panel = this.panels.get(panelKey(file.repoRoot ?? '', filePath));
     if (panel) {
       panel.webview.postMessage({
         command: 'showFile',
@@ -113,12 +179,32 @@ export class DiffPanelProvider {
         hunkStatuses: statuses,
         fileContent,
         highlightedLines,
+        wordRanges,
+        binary,
       });
     }
   }
 
-  closeFile(filePath: string): void {
-    const panel = this.panels.get(filePath);
+  /** Scroll a file's panel to a hunk, once the panel has loaded if it was just opened. */
+  revealHunk(repoRoot: string, filePath: string, hunkId: string): void {
+    const key = panelKey(repoRoot, filePath);
+    const panel = this.panels.get(key);
+    if (!panel) {
+      return;
+    }
+    if (this.pendingData.has(key)) {
+      this.pendingReveal.set(key, hunkId);
+    } else {
+      panel.webview.postMessage({ command: 'revealHunk', hunkId });
+    }
+  }
+
+  hasPanel(repoRoot: string, filePath: string): boolean {
+    return this.panels.has(panelKey(repoRoot, filePath));
+  }
+
+  closeFile(repoRoot: string, filePath: string): void {
+    const panel = this.panels.get(panelKey(repoRoot, filePath));
     if (panel) {
       panel.dispose();
     }
@@ -130,6 +216,7 @@ export class DiffPanelProvider {
     }
     this.panels.clear();
     this.pendingData.clear();
+    this.pendingReveal.clear();
   }
 
   private getHtml(webview: vscode.Webview): string {
@@ -146,7 +233,7 @@ export class DiffPanelProvider {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
   <link rel="stylesheet" href="${styleUri}">
   <title>Diff Reviewer</title>
 </head>
@@ -158,6 +245,11 @@ export class DiffPanelProvider {
   }
 }
 
+/** Panels are keyed by repository as well, so same-named files in different repos don't collide. */
+function panelKey(repoRoot: string, filePath: string): string {
+  return `${repoRoot}\0${filePath}`;
+}
+
 function getNonce(): string {
   let text = '';
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -0,0 +1,141 @@
+import { CharRange, DiffHunk, HunkWordRanges } from './types';
+
+/** Token pairs to compare before giving up and marking the rest of the line as changed */
+const MAX_LCS_CELLS = 250_000;
+
+/** Below this share of unchanged text the lines are just different, and marking words adds noise */
+const MIN_SHARED_RATIO = 0.4;
+
+/**
+ * Compute the changed words of every hunk, in the same order as `hunks`.
+ * Within each run of changed lines the n-th removed line is paired with the
+ * n-th added line; unpaired lines, and pairs with little in common, get no ranges.
+ */
+export function computeWordRanges(hunks: DiffHunk[]): HunkWordRanges[] {
+  return hunks.map((hunk) => {
+    const ranges: HunkWordRanges = {};
+    let i = 0;
+    while (i < hunk.lines.length) {
+      if (hunk.lines[i].type === 'context') {
+        i++;
+        continue;
+      }
+      const removed: number[] = [];
+      const added: number[] = [];
+      while (i < hunk.lines.length && hunk.lines[i].type !== 'context') {
+        (hunk.lines[i].type === 'remove' ? removed : added).push(i);
+        i++;
+      }
+      for (let p = 0; p < Math.min(removed.length, added.length); p++) {
+        const pair = diffWords(hunk.lines[removed[p]].content, hunk.lines[added[p]].content);
+        if (pair) {
+          ranges[removed[p]] = pair.removed;
+          ranges[added[p]] = pair.added;
+        }
+      }
+    }
+    return ranges;
+  });
+}
+
+/**
+ * Character ranges that differ between an old and a new line, compared word
+ * by word. Returns undefined when the lines are identical or share too little.
+ */
+export function diffWords(
+  oldText: string,
+  newText: string,
+): { removed: CharRange[]; added: CharRange[] } | undefined {
+  if (oldText === newText) {
+    return undefined;
+  }
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const [keepA, keepB] = commonTokens(a, b);
+
+  const shared = a.reduce((n, t, k) => (keepA[k] && /\S/.test(t) ? n + t.length : n), 0);
+  const visible = (tokens: string[]) => tokens.filter((t) => /\S/.test(t)).join('').length;
+  if (shared < Math.min(visible(a), visible(b)) * MIN_SHARED_RATIO) {
+    return undefined;
+  }
+
+  return { removed: toRanges(a, keepA), added: toRanges(b, keepB) };
+}
+
+/** Split a line into words, runs of whitespace and single punctuation characters. */
+function tokenize(text: string): string[] {
+  return text.match(/[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu) ?? [];
+}
+
+/** Mark which tokens of each side belong to their longest common subsequence. */
+function commonTokens(a: string[], b: string[]): [boolean[], boolean[]] {
+  const keepA = new Array<boolean>(a.length).fill(false);
+  const keepB = new Array<boolean>(b.length).fill(false);
+
+  // Common prefix and suffix first: most edits touch a small part of the line
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    keepA[start] = keepB[start] = true;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    keepA[--endA] = keepB[--endB] = true;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [keepA, keepB];
+  }
+
+  // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      keepA[start + i++] = keepB[start + j++] = true;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return [keepA, keepB];
+}
+
+/**
+ * Turn the tokens that are not kept into character ranges, joining changes
+ * separated by nothing but whitespace so a changed phrase reads as one.
+ */
+function toRanges(tokens: string[], keep: boolean[]): CharRange[] {
+  const ranges: CharRange[] = [];
+  let offset = 0;
+  // Whether everything since the last range is whitespace
+  let blankGap = false;
+  for (let k = 0; k < tokens.length; k++) {
+    const end = offset + tokens[k].length;
+    if (!keep[k]) {
+      if (blankGap) {
+        ranges[ranges.length - 1][1] = end;
+      } else {
+        ranges.push([offset, end]);
+      }
+      blankGap = true;
+    } else if (/\S/.test(tokens[k])) {
+      blankGap = false;
+    }
+    offset = end;
+  }
+  return ranges;
+}
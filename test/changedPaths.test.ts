@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  classifyGitDirChange,
+  replaceScopedFiles,
+  scopeChangedPaths,
+} from '../src/sidebar/changedPaths';
+import { DiffFile } from '../src/types';
+
+function makeFile(newPath: string, extra: Partial<DiffFile> = {}): DiffFile {
+  return {
+    oldPath: newPath,
+    newPath,
+    hunks: [],
+    isBinary: false,
+    diffHeader: [`--- a/${newPath}`, `+++ b/${newPath}`],
+    ...extra,
+  };
+}
+
+describe('classifyGitDirChange', () => {
+  it('re-diffs everything when HEAD, the index or a ref moves', () => {
+    assert.equal(classifyGitDirChange('/work/repo/.git/HEAD'), 'full');
+    assert.equal(classifyGitDirChange('/work/repo/.git/index'), 'full');
+    assert.equal(classifyGitDirChange('/work/repo/.git/packed-refs'), 'full');
+    assert.equal(classifyGitDirChange('/work/repo/.git/refs/heads/main'), 'full');
+    assert.equal(classifyGitDirChange('/work/repo/.git/modules/lib/HEAD'), 'full');
+  });
+
+  it('ignores objects, logs and lock files', () => {
+    assert.equal(classifyGitDirChange('/work/repo/.git/objects/ab/cdef'), 'none');
+    assert.equal(classifyGitDirChange('/work/repo/.git/logs/HEAD.lock'), 'none');
+    assert.equal(classifyGitDirChange('/work/repo/.git/index.lock'), 'none');
+  });
+
+  it('leaves paths outside .git to the scoped refresh', () => {
+    assert.equal(classifyGitDirChange('/work/repo/src/a.ts'), undefined);
+    assert.equal(classifyGitDirChange('C:\\work\\repo\\src\\a.ts'), undefined);
+  });
+});
+
+describe('scoped refresh', () => {
+  const cached = [
+    makeFile('a.txt'),
+    makeFile('src/b.txt'),
+    makeFile('src/new.txt', { oldPath: 'old.txt', renamedFrom: 'old.txt' }),
+    makeFile('lib'),
+  ];
+
+  it('re-diffs only the changed paths, with both sides of a rename', () => {
+    const scopes = scopeChangedPaths(['src/new.txt', 'lib/x.c'], ['lib'], cached);
+    assert.deepEqual([...scopes!].sort(), ['lib', 'old.txt', 'src/new.txt']);
+  });
+
+  it('re-diffs everything when a review rule file changed', () => {
+    assert.equal(scopeChangedPaths(['src/.gitattributes'], [], cached), undefined);
+    assert.equal(scopeChangedPaths(['.diffreviewerignore'], [], cached), undefined);
+  });
+
+  it('replaces only the files within the scopes, keeping their order', () => {
+    const updated = makeFile('src/b.txt', { isBinary: true });
+    const added = makeFile('src/c.txt');
+    const next = replaceScopedFiles(cached, new Set(['src']), [added, updated]);
+
+    assert.deepEqual(
+      next.map((f) => f.newPath),
+      ['a.txt', 'src/b.txt', 'lib', 'src/c.txt'],
+    );
+    assert.equal(next[0], cached[0]);
+    assert.equal(next[1], updated);
+    assert.equal(next[2], cached[3]);
+  });
+});
@@ -3,7 +3,22 @@ import * as assert from 'node:assert/strict';
 import { readFileSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { parseDiff, splitHunks } from '../src/git/diffParser';
+import {
+  buildCombinedPatch,
+  buildEditPatch,
+  buildMetaHunks,
+  buildPartialHunk,
+  computeHunkIds,
+  DiffStreamParser,
+  getFilePath,
+  linkMovedHunks,
+  mergeCommittedHunks,
+  overlapsConflict,
+  parseConflicts,
+  parseDiff,
+  splitHunks,
+} from '../src/git/diffParser';
+import { DiffFile, DiffHunk } from '../src/types';
 
 const __dirname =
   typeof import.meta.dirname === 'string'
@@ -101,6 +116,204 @@ Binary files a/image.png and b/image.png differ
     const files = parseDiff(raw);
     assert.equal(files.length, 1);
     assert.equal(files[0].isBinary, true);
+    assert.equal(files[0].oldPath, 'image.png');
+    assert.equal(files[0].newPath, 'image.png');
+  });
+
+  it('reviews a binary file as one whole-file hunk named after its content', () => {
+    const [changed, deleted] = parseDiff(`diff --git a/logo.png b/logo.png
+index c2000e7..38ec2d6 100644
+Binary files a/logo.png and b/logo.png differ
+diff --git a/font.woff b/font.woff
+deleted file mode 100644
+index 3b3c93b..0000000
+Binary files a/font.woff and /dev/null differ
+`);
+    assert.equal(changed.oldBlob, 'c2000e7');
+    assert.equal(changed.newBlob, '38ec2d6');
+    assert.deepEqual(
+      buildMetaHunks(changed).map((h) => [h.meta, h.header]),
+      [['binary', 'Binary file changed (c2000e7 → 38ec2d6)']],
+    );
+    // A deleted binary file is still one binary hunk, not an empty-file deletion
+    assert.equal(getFilePath(deleted), 'font.woff');
+    assert.deepEqual(
+      buildMetaHunks(deleted).map((h) => h.meta),
+      ['binary'],
+    );
+  });
+
+  it('parses a submodule pointer change without hunks', () => {
+    const raw = `diff --git a/vendor/lib b/vendor/lib
+index 1111111..2222222 160000
+--- a/vendor/lib
++++ b/vendor/lib
+@@ -1 +1 @@
+-Subproject commit 1111111111111111111111111111111111111111
++Subproject commit 2222222222222222222222222222222222222222-dirty
+`;
+    const files = parseDiff(raw);
+    assert.equal(files.length, 1);
+    assert.deepEqual(files[0].hunks, []);
+    assert.deepEqual(files[0].submodule, {
+      oldSha: '1111111111111111111111111111111111111111',
+      newSha: '2222222222222222222222222222222222222222',
+      dirty: true,
+    });
+  });
+
+  it('parses a newly added submodule', () => {
+    const raw = `diff --git a/vendor/lib b/vendor/lib
+new file mode 160000
+index 0000000..2222222
+--- /dev/null
++++ b/vendor/lib
+@@ -0,0 +1 @@
++Subproject commit 2222222222222222222222222222222222222222
+`;
+    const [file] = parseDiff(raw);
+    assert.equal(file.submodule?.oldSha, undefined);
+    assert.equal(file.submodule?.newSha, '2222222222222222222222222222222222222222');
+    assert.equal(file.submodule?.dirty, false);
+  });
+});
+
+describe('renames, copies and mode changes', () => {
+  const renameDiff = `diff --git a/old/name.ts b/new/name.ts
+similarity index 92%
+rename from old/name.ts
+rename to new/name.ts
+index 1111111..2222222 100644
+--- a/old/name.ts
++++ b/new/name.ts
+@@ -2 +2 @@
+-two
++TWO
+`;
+
+  it('parses rename metadata alongside content hunks', () => {
+    const [file] = parseDiff(renameDiff);
+    assert.equal(file.oldPath, 'old/name.ts');
+    assert.equal(file.newPath, 'new/name.ts');
+    assert.equal(file.renamedFrom, 'old/name.ts');
+    assert.equal(file.similarity, 92);
+    assert.equal(file.hunks.length, 1);
+  });
+
+  it('parses a pure rename and a mode change without ---/+++ lines', () => {
+    const files = parseDiff(`diff --git a/a.txt b/b.txt
+similarity index 100%
+rename from a.txt
+rename to b.txt
+diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755
+`);
+    assert.equal(files.length, 2);
+    assert.equal(files[0].oldPath, 'a.txt');
+    assert.equal(files[0].newPath, 'b.txt');
+    assert.deepEqual(files[0].hunks, []);
+    assert.equal(files[1].oldPath, 'run.sh');
+    assert.equal(files[1].newPath, 'run.sh');
+    assert.equal(files[1].oldMode, '100644');
+    assert.equal(files[1].newMode, '100755');
+  });
+
+  it('builds meta hunks with distinct IDs', () => {
+    const [file] = parseDiff(`diff --git a/run.sh b/run.sh
+similarity index 90%
+rename from tool.sh
+rename to run.sh
+old mode 100644
+new mode 100755
+`);
+    const hunks = buildMetaHunks(file);
+    assert.deepEqual(
+      hunks.map((h) => h.meta),
+      ['rename', 'mode'],
+    );
+    const ids = computeHunkIds(file.newPath, hunks);
+    assert.notEqual(ids[0], ids[1]);
+  });
+
+  it('includes rename headers only when the rename is part of the patch', () => {
+    const [file] = parseDiff(renameDiff);
+    const content = splitHunks(file.hunks);
+    const [rename] = buildMetaHunks(file);
+
+    assert.equal(
+      buildCombinedPatch(file, [rename, ...content]),
+      'diff --git a/old/name.ts b/new/name.ts\nrename from old/name.ts\nrename to new/name.ts\n' +
+        '--- a/old/name.ts\n+++ b/new/name.ts\n@@ -2,1 +2,1 @@\n-two\n+TWO\n',
+    );
+    // Without the rename the line change applies to the file at its old path
+    assert.equal(
+      buildCombinedPatch(file, content),
+      'diff --git a/old/name.ts b/old/name.ts\n' +
+        '--- a/old/name.ts\n+++ b/old/name.ts\n@@ -2,1 +2,1 @@\n-two\n+TWO\n',
+    );
+  });
+});
+
+describe('deleted files', () => {
+  it('reviews a deleted file under its old path', () => {
+    const [file] = parseDiff(`diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+index 1111111..0000000
+--- a/gone.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-one
+-two
+`);
+    assert.equal(file.isDeleted, true);
+    assert.equal(file.oldMode, '100644');
+    assert.equal(file.newPath, '/dev/null');
+    assert.equal(getFilePath(file), 'gone.ts');
+    assert.deepEqual(buildMetaHunks(file), []);
+  });
+
+  it('represents a deleted empty file by a meta hunk', () => {
+    const [file] = parseDiff(`diff --git a/empty.txt b/empty.txt
+deleted file mode 100644
+index e69de29..0000000
+`);
+    const hunks = buildMetaHunks(file);
+    assert.deepEqual(
+      hunks.map((h) => h.meta),
+      ['delete'],
+    );
+    assert.equal(
+      buildCombinedPatch(file, hunks),
+      'diff --git a/empty.txt b/empty.txt\ndeleted file mode 100644\n',
+    );
+  });
+});
+
+describe('DiffStreamParser', () => {
+  const raw = readFileSync(join(fixturesDir, 'multi-hunk.diff'), 'utf-8');
+
+  it('parses output split at arbitrary points like parseDiff does', () => {
+    const parser = new DiffStreamParser();
+    const files = [];
+    for (let i = 0; i < raw.length; i += 7) {
+      files.push(...parser.push(raw.slice(i, i + 7)));
+    }
+    files.push(...parser.end());
+    assert.deepEqual(files, parseDiff(raw));
+  });
+
+  it('collapses files over the size limit unless exempt', () => {
+    const parser = new DiffStreamParser(200);
+    const collapsed = [...parser.push(raw), ...parser.end()];
+    assert.equal(collapsed[0].newPath, 'src/app.ts');
+    assert.ok(collapsed[0].tooLarge! > 200);
+    assert.deepEqual(collapsed[0].hunks, []);
+    assert.equal(collapsed[1].tooLarge, undefined);
+
+    const exempt = new DiffStreamParser(200, (p) => p === 'src/app.ts');
+    const [full] = [...exempt.push(raw), ...exempt.end()];
+    assert.deepEqual(full, parseDiff(raw)[0]);
   });
 });
 
@@ -162,6 +375,48 @@ describe('splitHunks', () => {
     );
   });
 
+  it('keeps change groups together across a short run of context', () => {
+    const hunks = splitHunks(
+      [
+        {
+          oldStart: 16,
+          oldCount: 8,
+          newStart: 16,
+          newCount: 9,
+          header: '@@ -16,8 +16,9 @@',
+          lines: [
+            { type: 'context', content: 'line16' },
+            { type: 'context', content: 'line17' },
+            { type: 'add', content: 'line18new' },
+            { type: 'context', content: 'line19' },
+            { type: 'context', content: 'line20' },
+            { type: 'remove', content: 'line21old' },
+            { type: 'add', content: 'line21new' },
+            { type: 'context', content: 'line22' },
+          ],
+          rawLines: [],
+        },
+      ],
+      2,
+    );
+
+    assert.equal(hunks.length, 1);
+    assert.equal(hunks[0].newStart, 18);
+    assert.equal(hunks[0].newCount, 4);
+    assert.equal(hunks[0].oldCount, 3);
+    assert.deepEqual(
+      hunks[0].lines.map((l) => l.type),
+      ['add', 'context', 'context', 'remove', 'add'],
+    );
+    assert.deepEqual(hunks[0].rawLines.slice(1), [
+      '+line18new',
+      ' line19',
+      ' line20',
+      '-line21old',
+      '+line21new',
+    ]);
+  });
+
   it('does not split a hunk with only one change group', () => {
     const hunks = splitHunks([
       {
@@ -216,6 +471,27 @@ describe('splitHunks', () => {
     }
   });
 
+  it('produces a valid header for a new-file hunk', () => {
+    const hunks = splitHunks([
+      {
+        oldStart: 0,
+        oldCount: 0,
+        newStart: 1,
+        newCount: 2,
+        header: '@@ -0,0 +1,2 @@',
+        lines: [
+          { type: 'add', content: 'first' },
+          { type: 'add', content: 'second' },
+        ],
+        rawLines: ['@@ -0,0 +1,2 @@', '+first', '+second'],
+      },
+    ]);
+
+    assert.equal(hunks.length, 1);
+    assert.equal(hunks[0].header, '@@ -0,0 +1,2 @@');
+    assert.equal(hunks[0].newStart, 1);
+  });
+
   it('handles pure deletion group', () => {
     const hunks = splitHunks([
       {
@@ -240,3 +516,174 @@ describe('splitHunks', () => {
     assert.equal(hunks[0].newStart, 11); // position after "keep" line
   });
 });
+
+describe('mergeCommittedHunks', () => {
+  const hunk = (newStart: number, newCount: number, content: string): DiffHunk => ({
+    oldStart: newStart,
+    oldCount: 1,
+    newStart,
+    newCount,
+    header: `@@ -${newStart},1 +${newStart},${newCount} @@`,
+    lines: [
+      { type: 'remove', content: 'old' },
+      { type: 'add', content },
+    ],
+    rawLines: [`@@ -${newStart},1 +${newStart},${newCount} @@`, '-old', `+${content}`],
+  });
+
+  it('marks base hunks without working-tree changes as read-only', () => {
+    const merged = mergeCommittedHunks([hunk(3, 1, 'committed')], [hunk(10, 1, 'working')]);
+
+    assert.equal(merged.length, 2);
+    assert.equal(merged[0].newStart, 3);
+    assert.equal(merged[0].readOnly, true);
+    assert.equal(merged[1].newStart, 10);
+    assert.equal(merged[1].readOnly, undefined);
+  });
+
+  it('drops base hunks that overlap a working-tree hunk', () => {
+    const merged = mergeCommittedHunks([hunk(5, 2, 'committed')], [hunk(6, 1, 'working')]);
+
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0].lines[1].content, 'working');
+    assert.equal(merged[0].readOnly, undefined);
+  });
+});
+
+describe('linkMovedHunks', () => {
+  const file = (path: string, hunks: DiffHunk[]) =>
+    ({ oldPath: path, newPath: path, hunks, isBinary: false, diffHeader: [] }) as DiffFile;
+  const hunk = (id: string, type: 'add' | 'remove', lines: string[], start = 1): DiffHunk => ({
+    oldStart: start,
+    oldCount: type === 'remove' ? lines.length : 0,
+    newStart: start,
+    newCount: type === 'add' ? lines.length : 0,
+    header: '',
+    lines: lines.map((content) => ({ type, content })),
+    rawLines: [],
+    id,
+  });
+
+  it('links a removed block to the same lines added in another file', () => {
+    const body = ['function f() {', '  return 1;', '}'];
+    const a = file('a.ts', [hunk('out', 'remove', body, 10)]);
+    const b = file('b.ts', [
+      hunk(
+        'in',
+        'add',
+        body.map((l) => '    ' + l),
+        4,
+      ),
+    ]);
+    linkMovedHunks([a, b]);
+
+    assert.deepEqual(a.hunks[0].moved, { filePath: 'b.ts', hunkId: 'in', line: 4 });
+    assert.deepEqual(b.hunks[0].moved, { filePath: 'a.ts', hunkId: 'out', line: 10 });
+  });
+
+  it('ignores short blocks and replaces stale links', () => {
+    const a = file('a.ts', [hunk('out', 'remove', ['x', '', 'y'])]);
+    const b = file('b.ts', [hunk('in', 'add', ['x', 'y'])]);
+    b.hunks[0].moved = { filePath: 'gone.ts', hunkId: 'old', line: 1 };
+    linkMovedHunks([a, b]);
+
+    assert.equal(a.hunks[0].moved, undefined);
+    assert.equal(b.hunks[0].moved, undefined);
+  });
+});
+
+describe('buildPartialHunk', () => {
+  it('keeps the selected lines and turns the other added lines into context', () => {
+    const hunk: DiffHunk = {
+      oldStart: 2,
+      oldCount: 2,
+      newStart: 2,
+      newCount: 3,
+      header: '@@ -2,2 +2,3 @@',
+      lines: [
+        { type: 'remove', content: 'two' },
+        { type: 'remove', content: 'three' },
+        { type: 'add', content: 'TWO' },
+        { type: 'add', content: 'THREE' },
+        { type: 'add', content: 'debug' },
+      ],
+      rawLines: ['@@ -2,2 +2,3 @@', '-two', '-three', '+TWO', '+THREE', '+debug'],
+    };
+
+    const partial = buildPartialHunk(hunk, [0, 4]);
+    assert.deepEqual(partial.rawLines, ['@@ -2,3 +2,3 @@', '-two', ' TWO', ' THREE', '+debug']);
+    assert.equal(partial.oldCount, 3);
+    assert.equal(partial.newCount, 3);
+  });
+});
+
+describe('buildEditPatch', () => {
+  it('replaces the given lines, keeping CRLF line endings', () => {
+    const patch = buildEditPatch('a.txt', ['one\r', 'two\r', 'three\r', ''], 1, 1, ['2', '2b']);
+    assert.equal(patch, '--- a/a.txt\n+++ b/a.txt\n@@ -2,1 +2,2 @@\n-two\r\n+2\r\n+2b\r\n');
+    assert.equal(buildEditPatch('a.txt', ['one', ''], 0, 1, ['one']), undefined);
+  });
+
+  it('keeps a missing final newline when adding after the last line', () => {
+    const patch = buildEditPatch('a.txt', ['one', 'two'], 2, 0, ['three']);
+    assert.equal(
+      patch,
+      [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -2,1 +2,2 @@',
+        '-two',
+        '\\ No newline at end of file',
+        '+two',
+        '+three',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('parseConflicts', () => {
+  it('reads both sides, and the common ancestor with the diff3 style', () => {
+    const conflicts = parseConflicts([
+      'keep',
+      '<<<<<<< HEAD',
+      'mine',
+      '||||||| merged common ancestors',
+      'old',
+      '=======',
+      'yours',
+      'yours too',
+      '>>>>>>> feature',
+      '<<<<<<< not closed',
+      '',
+    ]);
+    assert.deepEqual(conflicts, [
+      {
+        start: 1,
+        end: 8,
+        ours: ['mine'],
+        base: ['old'],
+        theirs: ['yours', 'yours too'],
+        oursLabel: 'HEAD',
+        theirsLabel: 'feature',
+      },
+    ]);
+  });
+
+  it('finds the hunks that overlap a conflict', () => {
+    const [conflict] = parseConflicts(['<<<<<<< a', 'x', '=======', 'y', '>>>>>>> b', 'z']);
+    const hunk = (newStart: number, newCount: number) => ({
+      newStart,
+      newCount,
+      oldStart: 1,
+      oldCount: 0,
+      header: '',
+      lines: [],
+      rawLines: [],
+    });
+    assert.equal(overlapsConflict(hunk(3, 1), [conflict]), true);
+    assert.equal(overlapsConflict(hunk(6, 1), [conflict]), false);
+    assert.equal(overlapsConflict(hunk(6, 0), [conflict]), false);
+  });
+});
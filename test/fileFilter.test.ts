@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  compileReviewRules,
+  globToRegExp,
+  isBinaryPath,
+  matchReviewRules,
+  parseIgnoreFile,
+} from '../src/git/fileFilter';
+
+describe('globToRegExp', () => {
+  const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+  it('matches a pattern without a slash at any depth', () => {
+    assert.ok(matches('*.snap', 'a.snap'));
+    assert.ok(matches('*.snap', 'src/__snapshots__/a.snap'));
+    assert.ok(!matches('*.snap', 'a.snapshot'));
+  });
+
+  it('anchors patterns containing a slash to the repository root', () => {
+    assert.ok(matches('dist/**', 'dist/js/app.js'));
+    assert.ok(!matches('dist/**', 'packages/dist/app.js'));
+    assert.ok(matches('/build', 'build/out.o'));
+    assert.ok(!matches('/build', 'src/build/out.o'));
+    assert.ok(!matches('src/*.ts', 'src/lib/a.ts'));
+    assert.ok(matches('src/**/*.ts', 'src/a.ts'));
+  });
+
+  it('covers everything beneath a matched directory', () => {
+    assert.ok(matches('dist/', 'packages/dist/app.js'));
+    assert.ok(matches('node_modules', 'node_modules/x/index.js'));
+  });
+
+  it('supports ?, character classes and braces', () => {
+    assert.ok(matches('file?.txt', 'file1.txt'));
+    assert.ok(matches('[ab].txt', 'b.txt'));
+    assert.ok(!matches('[!ab].txt', 'b.txt'));
+    assert.ok(matches('**/*.{snap,map}', 'dist/app.js.map'));
+    assert.ok(!matches('a.b', 'axb'));
+  });
+});
+
+describe('review rules', () => {
+  it('parses ignore files with comments, negation and escapes', () => {
+    const rules = parseIgnoreFile('# generated\n\ndist/\n!dist/keep.js\n\\#notes\n');
+    assert.deepEqual(
+      rules.map((r) => r.include),
+      [false, true, false],
+    );
+    assert.equal(matchReviewRules('#notes', rules), 'exclude');
+  });
+
+  it('lets the last matching rule decide, with include globs last', () => {
+    const rules = compileReviewRules(
+      { include: ['src/generated/keep.ts'], exclude: ['*.lock', 'src/generated/**'] },
+      '!yarn.lock\n',
+    );
+    assert.equal(matchReviewRules('Cargo.lock', rules), 'exclude');
+    assert.equal(matchReviewRules('yarn.lock', rules), 'include');
+    assert.equal(matchReviewRules('src/generated/api.ts', rules), 'exclude');
+    assert.equal(matchReviewRules('src/generated/keep.ts', rules), 'include');
+    assert.equal(matchReviewRules('src/app.ts', rules), undefined);
+  });
+});
+
+describe('isBinaryPath', () => {
+  it('judges by the file extension only', () => {
+    assert.ok(isBinaryPath('assets/logo.PNG'));
+    assert.ok(!isBinaryPath('src/app.ts'));
+    // A bare name is not an extension
+    assert.ok(!isBinaryPath('vendor/lib'));
+  });
+});
@@ -0,0 +1,191 @@
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { buildPatch } from '../src/git/diffParser';
+import { GitAdapter } from '../src/git/gitAdapter';
+import { RejectTrash } from '../src/state/rejectTrash';
+import { StateManager } from '../src/state/stateManager';
+import { DiffFile } from '../src/types';
+
+// These tests run git itself, in a throwaway repository per test
+
+let repo: string;
+let git: GitAdapter;
+
+function run(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+}
+
+async function commitFile(filePath: string, content: string): Promise<void> {
+  await writeFile(join(repo, filePath), content);
+  run('add', '--', filePath);
+  run('commit', '--quiet', '-m', `Add ${filePath}`);
+}
+
+beforeEach(async () => {
+  repo = await mkdtemp(join(tmpdir(), 'diff-reviewer-git-'));
+  run('init', '--quiet');
+  run('config', 'user.name', 'Test');
+  run('config', 'user.email', 'test@example.com');
+  git = new GitAdapter(repo);
+  await git.init();
+});
+
+afterEach(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe('getDiff', () => {
+  it('assigns hunk IDs without a progress callback', async () => {
+    await commitFile('a.txt', 'one\ntwo\nthree\nfour\nfive\nsix\n');
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nfive\nSIX\n');
+    await writeFile(join(repo, 'new.txt'), 'new\n');
+
+    const files = await git.getDiff();
+
+    const hunks = files.flatMap((f) => f.hunks);
+    assert.equal(hunks.length, 3);
+    assert.ok(hunks.every((h) => h.id.length > 0));
+  });
+});
+
+describe('stageHunk', () => {
+  const original = 'one\ntwo\nthree\nfour\nfive\nsix\n';
+
+  function onlyFile(files: DiffFile[]): DiffFile {
+    assert.equal(files.length, 1);
+    return files[0];
+  }
+
+  it('stages a single hunk', async () => {
+    await commitFile('a.txt', original);
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nfive\nSIX\n');
+    const file = onlyFile(await git.getDiff());
+
+    await git.stageHunk(file, file.hunks[1].id);
+
+    assert.equal(run('show', ':a.txt'), 'one\ntwo\nthree\nfour\nfive\nSIX\n');
+  });
+
+  it('refuses a merged hunk that is partly staged', async () => {
+    await commitFile('a.txt', original);
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nfive\nsix\n');
+    run('add', '--', 'a.txt');
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nFIVE\nsix\n');
+    git.setHunkGranularity('nearby', 3);
+    const file = onlyFile(await git.getDiff());
+    assert.equal(file.hunks.length, 1);
+
+    await assert.rejects(git.stageHunk(file, file.hunks[0].id), /split differently/);
+    assert.equal(run('show', ':a.txt'), 'one\nTWO\nthree\nfour\nfive\nsix\n');
+  });
+
+  it('leaves an already staged hunk alone', async () => {
+    await commitFile('a.txt', original);
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nfive\nsix\n');
+    run('add', '--', 'a.txt');
+    const file = onlyFile(await git.getDiff());
+
+    await git.stageHunk(file, file.hunks[0].id);
+
+    assert.equal(run('diff', '--cached', '--name-only'), 'a.txt\n');
+  });
+});
+
+describe('commitPatches', () => {
+  it('commits only the given hunks and keeps other staged changes staged', async () => {
+    await commitFile('a.txt', 'one\ntwo\nthree\nfour\nfive\nsix\n');
+    await writeFile(join(repo, 'a.txt'), 'one\ntwo\nthree\nfour\nfive\nSIX\n');
+    run('add', '--', 'a.txt');
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\nthree\nfour\nfive\nSIX\n');
+    const [file] = await git.getDiff();
+
+    await git.commitPatches([buildPatch(file, file.hunks[0])], ['a.txt'], 'Approved');
+
+    assert.equal(run('show', 'HEAD:a.txt'), 'one\nTWO\nthree\nfour\nfive\nsix\n');
+    assert.equal(run('show', ':a.txt'), 'one\nTWO\nthree\nfour\nfive\nSIX\n');
+  });
+
+  it('resets paths with nothing else staged to the new commit', async () => {
+    await commitFile('a.txt', 'one\ntwo\n');
+    await writeFile(join(repo, 'a.txt'), 'one\nTWO\n');
+    const [file] = await git.getDiff();
+
+    await git.commitPatches([buildPatch(file, file.hunks[0])], ['a.txt'], 'Approved');
+
+    assert.equal(run('diff', '--cached', '--name-only'), '');
+    assert.equal(run('diff', '--name-only'), '');
+  });
+});
+
+describe('restoring rejected changes', () => {
+  it('merges a rejected added file back in after the file was created again', async () => {
+    await commitFile('base.txt', 'base\n');
+    await writeFile(join(repo, 'new.txt'), 'one\ntwo\n');
+    run('add', '--', 'new.txt');
+    const state = new StateManager(git, undefined, repo, new RejectTrash(join(repo, 'trash')));
+    const [file] = await git.getDiff(['new.txt']);
+    state.syncStatuses(file);
+
+    await state.reject('new.txt', file.hunks[0].id, file);
+    await writeFile(join(repo, 'new.txt'), 'zero\n');
+    const [entry] = await state.listRejected();
+    const restored = await state.restoreRejected(entry.id);
+
+    assert.deepEqual(restored, { filePath: 'new.txt', conflicts: true });
+    const content = await readFile(join(repo, 'new.txt'), 'utf-8');
+    assert.match(content, /^<<<<<<< .*\nzero\n=======\none\ntwo\n>>>>>>> /);
+  });
+
+  it('merges an added file back in a SHA-256 repository', async () => {
+    await rm(join(repo, '.git'), { recursive: true, force: true });
+    run('init', '--quiet', '--object-format=sha256');
+    run('config', 'user.name', 'Test');
+    run('config', 'user.email', 'test@example.com');
+    await git.init();
+    assert.equal(await git.nullObject(), '0'.repeat(64));
+
+    await commitFile('base.txt', 'base\n');
+    await writeFile(join(repo, 'new.txt'), 'one\n');
+    run('add', '--', 'new.txt');
+    const state = new StateManager(git, undefined, repo, new RejectTrash(join(repo, 'trash')));
+    const [file] = await git.getDiff(['new.txt']);
+    state.syncStatuses(file);
+
+    await state.reject('new.txt', file.hunks[0].id, file);
+    await writeFile(join(repo, 'new.txt'), 'zero\n');
+    const [entry] = await state.listRejected();
+
+    assert.deepEqual(await state.restoreRejected(entry.id), {
+      filePath: 'new.txt',
+      conflicts: true,
+    });
+  });
+});
+
+describe('repositories without commits', () => {
+  it('reviews every file as added and makes the first commit from approved hunks', async () => {
+    await writeFile(join(repo, 'a.txt'), 'one\n');
+    await writeFile(join(repo, 'b.txt'), 'two\n');
+    run('add', '--', 'a.txt');
+
+    assert.equal(await git.hasCommits(), false);
+    const files = await git.getDiff();
+    assert.deepEqual(files.map((f) => f.newPath).sort(), ['a.txt', 'b.txt']);
+    const a = files.find((f) => f.newPath === 'a.txt')!;
+    assert.deepEqual(a.diffHeader, ['--- /dev/null', '+++ b/a.txt']);
+
+    const state = new StateManager(git);
+    files.forEach((f) => state.syncStatuses(f));
+    await state.approve('a.txt', a.hunks[0].id);
+    const [approved] = state.getApprovedPatches(files);
+    await git.commitPatches([approved.patch], approved.paths, 'First');
+
+    assert.equal(run('show', 'HEAD:a.txt'), 'one\n');
+    assert.equal(run('ls-tree', '--name-only', 'HEAD'), 'a.txt\n');
+    assert.equal(run('status', '--porcelain'), '?? b.txt\n');
+  });
+});
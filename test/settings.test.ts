@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseConfig, Settings } from '../src/settings';
+
+/** Settings as VS Code returns them: the given values, or the default passed to `get`. */
+function settings(values: Record<string, unknown>): Settings {
+  return {
+    get: (key: string, fallback?: unknown) => (key in values ? values[key] : fallback),
+  } as Settings;
+}
+
+describe('parseConfig', () => {
+  it('uses the defaults when nothing is set', () => {
+    const config = parseConfig(settings({}));
+    assert.equal(config.stageOnApprove, false);
+    assert.equal(config.refreshDelay, 500);
+    assert.equal(config.maxOutputSize, 10 * 1024 * 1024);
+    assert.equal(config.maxFileDiffSize, 1024 * 1024);
+    assert.equal(config.hunkGranularity, 'change');
+    assert.equal(config.mergeContextLines, 3);
+    assert.equal(config.ignoreWhitespace, 'none');
+    assert.deepEqual(config.reviewRules, { include: [], exclude: [], honorAttributes: true });
+  });
+
+  it('clamps numbers below their minimum', () => {
+    const config = parseConfig(
+      settings({
+        refreshDelay: -100,
+        maxOutputSizeMB: 0,
+        maxFileDiffSizeKB: -1,
+        mergeContextLines: 0,
+      }),
+    );
+    assert.equal(config.refreshDelay, 0);
+    assert.equal(config.maxOutputSize, 1024 * 1024);
+    assert.equal(config.maxFileDiffSize, 1024);
+    assert.equal(config.mergeContextLines, 1);
+  });
+
+  it('falls back to the default for values that are not numbers', () => {
+    const config = parseConfig(
+      settings({ refreshDelay: 'fast', maxOutputSizeMB: null, mergeContextLines: NaN }),
+    );
+    assert.equal(config.refreshDelay, 500);
+    assert.equal(config.maxOutputSize, 10 * 1024 * 1024);
+    assert.equal(config.mergeContextLines, 3);
+  });
+
+  it('accepts only known granularities', () => {
+    assert.equal(parseConfig(settings({ hunkGranularity: 'nearby' })).hunkGranularity, 'nearby');
+    assert.equal(parseConfig(settings({ hunkGranularity: 'hunk' })).hunkGranularity, 'hunk');
+    assert.equal(parseConfig(settings({ hunkGranularity: 'file' })).hunkGranularity, 'change');
+  });
+
+  it('ignores whitespace only when the toggle is on', () => {
+    const mode = (values: Record<string, unknown>) =>
+      parseConfig(settings(values)).ignoreWhitespace;
+    assert.equal(mode({ ignoreWhitespaceMode: 'all' }), 'none');
+    assert.equal(mode({ ignoreWhitespace: true, ignoreWhitespaceMode: 'all' }), 'all');
+    assert.equal(mode({ ignoreWhitespace: true, ignoreWhitespaceMode: 'tabs' }), 'change');
+  });
+});
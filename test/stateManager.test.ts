@@ -1,22 +1,108 @@
 import * as assert from 'node:assert/strict';
-import { beforeEach, describe, it } from 'node:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
 import type * as vscode from 'vscode';
 import { GitAdapter } from '../src/git/gitAdapter';
+import { RejectTrash } from '../src/state/rejectTrash';
 import { StateManager } from '../src/state/stateManager';
-import { DiffFile, DiffHunk } from '../src/types';
+import { DiffFile, DiffHunk, MetaRestore, ReviewMode, UnmergedEntry } from '../src/types';
 
 // Minimal mock of GitAdapter
 class MockGitAdapter {
   appliedReverse: string[] = [];
   appliedForward: string[] = [];
+  appliedCached: boolean[] = [];
   nextFileDiff: DiffFile[] = [];
+  mode: ReviewMode = 'all';
+  staged: string[] = [];
+  unstaged: string[] = [];
+  revertedMeta: string[] = [];
+  restoredMeta: MetaRestore[] = [];
+  restoredDeleted: string[] = [];
+  removedUntracked: [number, number][] = [];
+  reInserted: [number, string[]][] = [];
+  fileContent: string[] = [];
+  resolvedPaths: string[] = [];
+  unresolved: [string, UnmergedEntry[]][] = [];
+  mergedThreeWay: string[] = [];
+  /** Make applyForward fail, as when the file changed since the patch was made */
+  forwardFails = false;
+  /** What hashFile reports, to simulate a file changing on disk */
+  fileHash = 'base-blob';
 
-  async applyReverse(patch: string) {
+  async stageHunk(_file: DiffFile, hunkId: string) {
+    this.staged.push(hunkId);
+  }
+
+  async unstageHunk(_filePath: string, hunkId: string) {
+    this.unstaged.push(hunkId);
+  }
+
+  getMode(): ReviewMode {
+    return this.mode;
+  }
+
+  async applyReverse(patch: string, cached = false) {
     this.appliedReverse.push(patch);
+    this.appliedCached.push(cached);
   }
 
-  async applyForward(patch: string) {
+  async applyForward(patch: string, cached = false) {
+    if (this.forwardFails) {
+      throw new Error('git apply failed: patch does not apply');
+    }
     this.appliedForward.push(patch);
+    this.appliedCached.push(cached);
+  }
+
+  async revertMeta(file: DiffFile, hunk: DiffHunk): Promise<MetaRestore> {
+    this.revertedMeta.push(hunk.meta!);
+    return { kind: 'rename', from: file.renamedFrom!, to: file.newPath, scope: this.mode };
+  }
+
+  async restoreDeletedFile(filePath: string): Promise<MetaRestore> {
+    this.restoredDeleted.push(filePath);
+    return { kind: 'delete', path: filePath, scope: this.mode };
+  }
+
+  async rejectUntrackedHunk(_filePath: string, hunk: DiffHunk) {
+    this.removedUntracked.push([hunk.newStart, hunk.newCount]);
+  }
+
+  async reInsertUntrackedLines(_filePath: string, lineIndex: number, lines: string[]) {
+    this.reInserted.push([lineIndex, lines]);
+  }
+
+  async restoreMeta(restore: MetaRestore) {
+    this.restoredMeta.push(restore);
+  }
+
+  async markResolved(filePath: string): Promise<UnmergedEntry[]> {
+    this.resolvedPaths.push(filePath);
+    return [{ mode: '100644', sha: 'abc', stage: 2 }];
+  }
+
+  async markUnresolved(filePath: string, entries: UnmergedEntry[]) {
+    this.unresolved.push([filePath, entries]);
+  }
+
+  async hashFile(_filePath: string): Promise<string> {
+    return this.fileHash;
+  }
+
+  async nullObject(): Promise<string> {
+    return '0'.repeat(40);
+  }
+
+  async applyThreeWay(patch: string, _filePath: string, baseBlob: string): Promise<boolean> {
+    this.mergedThreeWay.push(baseBlob);
+    return patch.length > 0;
+  }
+
+  async getFileContent(_filePath: string): Promise<string[]> {
+    return this.fileContent;
   }
 
   async getFileDiff(_filePath: string): Promise<DiffFile[]> {
@@ -116,6 +202,25 @@ describe('StateManager', () => {
     });
   });
 
+  describe('committed hunks', () => {
+    it('reports read-only hunks as committed and excludes them from resolution', () => {
+      const file = makeFile([makeHunk({ id: 'old', readOnly: true }), makeHunk({ id: 'new' })]);
+      const statuses = state.syncStatuses(file);
+      assert.deepEqual(statuses, ['committed', 'pending']);
+
+      state.approve('test.txt', 'new');
+      assert.equal(state.isFileResolved('test.txt'), true);
+    });
+
+    it('refuses to reject a read-only hunk', async () => {
+      const file = makeFile([makeHunk({ id: 'old', readOnly: true })]);
+      state.syncStatuses(file);
+
+      await assert.rejects(() => state.reject('test.txt', 'old', file));
+      assert.equal(git.appliedReverse.length, 0);
+    });
+  });
+
   describe('approve', () => {
     it('marks hunk as approved by ID', () => {
       const hunk = makeHunk({ id: 'test-id' });
@@ -134,6 +239,51 @@ describe('StateManager', () => {
     });
   });
 
+  describe('approve-to-stage', () => {
+    it('does not stage by default', async () => {
+      const file = makeFile([makeHunk({ id: 'a' })]);
+      state.syncStatuses(file);
+      await state.approve('test.txt', 'a', file);
+      assert.deepEqual(git.staged, []);
+    });
+
+    it('stages on approve and unstages on undo when enabled', async () => {
+      const file = makeFile([makeHunk({ id: 'a' }), makeHunk({ id: 'b' })]);
+      state.setStageOnApprove(true);
+      state.syncStatuses(file);
+
+      await state.approve('test.txt', 'a', file);
+      await state.approveAll('test.txt', file);
+      assert.deepEqual(git.staged, ['a', 'b']);
+
+      await state.undo();
+      await state.undoApprove('test.txt', 'a');
+      assert.deepEqual(git.unstaged, ['b', 'a']);
+      assert.deepEqual(state.getStatusArray(file), ['pending', 'pending']);
+    });
+
+    it('leaves the hunk pending when staging fails', async () => {
+      const file = makeFile([makeHunk({ id: 'a' })]);
+      state.setStageOnApprove(true);
+      state.syncStatuses(file);
+      git.stageHunk = async () => {
+        throw new Error('patch does not apply');
+      };
+
+      await assert.rejects(() => state.approve('test.txt', 'a', file));
+      assert.deepEqual(state.getStatusArray(file), ['pending']);
+    });
+
+    it('does not stage in staged mode', async () => {
+      const file = makeFile([makeHunk({ id: 'a' })]);
+      state.setStageOnApprove(true);
+      git.mode = 'staged';
+      state.syncStatuses(file);
+      await state.approve('test.txt', 'a', file);
+      assert.deepEqual(git.staged, []);
+    });
+  });
+
   describe('reject', () => {
     it('calls git applyReverse with a valid patch', async () => {
       const hunk = makeHunk({ id: 'reject-me' });
@@ -151,6 +301,28 @@ describe('StateManager', () => {
       assert.ok(patch.includes('@@ -1,3 +1,4 @@'));
     });
 
+    it('refuses while a git operation is in progress', async () => {
+      const file = makeFile([makeHunk({ id: 'mid-rebase' })]);
+      state.syncStatuses(file);
+      state.setOperation('rebase');
+
+      await assert.rejects(() => state.reject('test.txt', 'mid-rebase', file), /rebase/);
+      assert.equal(git.appliedReverse.length, 0);
+    });
+
+    it('reverse-applies against the index in staged mode', async () => {
+      const hunk = makeHunk({ id: 'staged' });
+      const file = makeFile([hunk]);
+      state.syncStatuses(file);
+      git.mode = 'staged';
+      git.nextFileDiff = [];
+
+      await state.reject('test.txt', 'staged', file);
+      await state.undo();
+
+      assert.deepEqual(git.appliedCached, [true, true]);
+    });
+
     it('returns null when no more hunks remain', async () => {
       const hunk = makeHunk({ id: 'only-one' });
       const file = makeFile([hunk]);
@@ -176,6 +348,255 @@ describe('StateManager', () => {
     });
   });
 
+  describe('rejectLines', () => {
+    it('reverse-applies only the selected lines', async () => {
+      const file = makeFile([makeHunk({ id: 'partial' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+
+      // Lines: context hello, -world, +beautiful world, +today, context end
+      await state.rejectLines('test.txt', 'partial', file, [3]);
+      assert.ok(
+        git.appliedReverse[0].includes('@@ -1,3 +1,4 @@\n hello\n beautiful world\n+today\n end'),
+      );
+    });
+
+    it('removes runs of untracked lines last first and re-inserts them on undo', async () => {
+      const hunk = makeHunk({
+        id: 'new',
+        oldStart: 0,
+        oldCount: 0,
+        newStart: 1,
+        newCount: 4,
+        lines: ['a', 'b', 'c', 'd'].map((content) => ({ type: 'add' as const, content })),
+      });
+      const file = { ...makeFile([hunk]), isUntracked: true };
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+
+      await state.rejectLines('test.txt', 'new', file, [0, 2, 3]);
+      assert.deepEqual(git.removedUntracked, [
+        [3, 2],
+        [1, 1],
+      ]);
+
+      await state.undo();
+      assert.deepEqual(git.reInserted, [
+        [0, ['a']],
+        [2, ['c', 'd']],
+      ]);
+    });
+  });
+
+  describe('editHunk', () => {
+    beforeEach(() => {
+      git.fileContent = ['hello', 'beautiful world', 'today', 'end', ''];
+    });
+
+    it('applies the edited lines and reverses them on undo', async () => {
+      const file = makeFile([makeHunk({ id: 'typo' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+
+      await state.editHunk(
+        'test.txt',
+        'typo',
+        file,
+        ['hello', 'beautiful world', 'tomorrow', 'end'],
+        false,
+      );
+      assert.ok(git.appliedForward[0].includes('@@ -1,4 +1,4 @@\n'));
+      assert.ok(git.appliedForward[0].includes('\n-today\n-end\n+hello\n'));
+      assert.ok(git.appliedForward[0].endsWith('+tomorrow\n+end\n'));
+
+      await state.undo();
+      assert.deepEqual(git.appliedReverse, git.appliedForward);
+    });
+
+    it('approves what the edit leaves in place of the hunk', async () => {
+      const file = makeFile([makeHunk({ id: 'typo' }), makeHunk({ id: 'other', newStart: 9 })]);
+      state.syncStatuses(file);
+      const edited = makeFile([makeHunk({ id: 'fixed' }), makeHunk({ id: 'other', newStart: 9 })]);
+      git.nextFileDiff = [edited];
+
+      await state.editHunk('test.txt', 'typo', file, ['hello', 'fixed', 'end'], true);
+      assert.deepEqual(state.getStatusArray(edited), ['approved', 'pending']);
+    });
+
+    it('undoes and redoes the edit and its approval as one action', async () => {
+      const file = makeFile([makeHunk({ id: 'typo' })]);
+      state.syncStatuses(file);
+      const edited = makeFile([makeHunk({ id: 'fixed' })]);
+      git.nextFileDiff = [edited];
+      await state.editHunk('test.txt', 'typo', file, ['hello', 'fixed', 'end'], true);
+
+      const undone = await state.undo();
+      assert.equal(undone?.undoneType, 'edit');
+      assert.deepEqual(git.appliedReverse, git.appliedForward);
+      assert.deepEqual(state.getStatusArray(edited), ['pending']);
+      assert.equal(state.lastActionTime(), undefined);
+
+      const redone = await state.redo();
+      assert.equal(redone?.redoneType, 'edit');
+      assert.equal(git.appliedForward.length, 2);
+      assert.deepEqual(state.getStatusArray(edited), ['approved']);
+    });
+
+    it('keeps the edit undoable when its approval is undone on its own', async () => {
+      const file = makeFile([makeHunk({ id: 'typo' })]);
+      state.syncStatuses(file);
+      const edited = makeFile([makeHunk({ id: 'fixed' })]);
+      git.nextFileDiff = [edited];
+      await state.editHunk('test.txt', 'typo', file, ['hello', 'fixed', 'end'], true);
+
+      await state.undoApprove('test.txt', 'fixed');
+      assert.deepEqual(state.getStatusArray(edited), ['pending']);
+      assert.deepEqual(git.appliedReverse, []);
+
+      assert.equal((await state.undo())?.undoneType, 'edit');
+      assert.deepEqual(git.appliedReverse, git.appliedForward);
+    });
+
+    it('refuses to edit lines that changed since the diff was read', async () => {
+      const file = makeFile([makeHunk({ id: 'typo' })]);
+      state.syncStatuses(file);
+      git.fileContent = ['hello', 'something else', 'today', 'end', ''];
+
+      await assert.rejects(state.editHunk('test.txt', 'typo', file, ['hello'], false));
+      assert.equal(git.appliedForward.length, 0);
+    });
+  });
+
+  describe('rejectWithSuggestion', () => {
+    it('replaces only the added lines and approves the result', async () => {
+      git.fileContent = ['hello', 'beautiful world', 'today', 'end', ''];
+      const file = makeFile([makeHunk({ id: 'ai' })]);
+      state.syncStatuses(file);
+      const suggested = makeFile([makeHunk({ id: 'mine' })]);
+      git.nextFileDiff = [suggested];
+
+      await state.rejectWithSuggestion('test.txt', 'ai', file, ['wonderful world']);
+      assert.equal(
+        git.appliedForward[0],
+        '--- a/test.txt\n+++ b/test.txt\n@@ -2,2 +2,1 @@\n-beautiful world\n-today\n+wonderful world\n',
+      );
+      assert.deepEqual(state.getStatusArray(suggested), ['approved']);
+
+      const undone = await state.undo();
+      assert.equal(undone?.undoneType, 'suggest');
+      assert.deepEqual(git.appliedReverse, git.appliedForward);
+      assert.deepEqual(state.getStatusArray(suggested), ['pending']);
+      assert.equal(await state.undo(), null);
+    });
+
+    it('is refused during a git operation', async () => {
+      const file = makeFile([makeHunk({ id: 'ai' })]);
+      state.syncStatuses(file);
+      state.setOperation('rebase');
+
+      await assert.rejects(state.rejectWithSuggestion('test.txt', 'ai', file, ['x']));
+    });
+  });
+
+  describe('resolveConflict', () => {
+    const conflictFile = (): DiffFile => ({
+      ...makeFile([]),
+      conflicts: [
+        {
+          start: 1,
+          end: 7,
+          ours: ['mine'],
+          base: ['old'],
+          theirs: ['yours'],
+          oursLabel: 'HEAD',
+          theirsLabel: 'feature',
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      git.fileContent = [
+        'a',
+        '<<<<<<< HEAD',
+        'mine',
+        '||||||| base',
+        'old',
+        '=======',
+        'yours',
+        '>>>>>>> feature',
+        'b',
+        '',
+      ];
+    });
+
+    it('takes one side and marks the file resolved once no conflicts are left', async () => {
+      await state.resolveConflict('test.txt', conflictFile(), 0, 'theirs');
+      assert.ok(git.appliedForward[0].includes('@@ -2,7 +2,1 @@\n-<<<<<<< HEAD\n'));
+      assert.ok(git.appliedForward[0].endsWith('->>>>>>> feature\n+yours\n'));
+      assert.deepEqual(git.resolvedPaths, ['test.txt']);
+
+      await state.undo();
+      assert.deepEqual(git.unresolved, [['test.txt', [{ mode: '100644', sha: 'abc', stage: 2 }]]]);
+      assert.deepEqual(git.appliedReverse, git.appliedForward);
+    });
+
+    it('refuses when the markers moved', async () => {
+      git.fileContent = ['a', 'b', ...git.fileContent];
+      await assert.rejects(state.resolveConflict('test.txt', conflictFile(), 0, 'ours'));
+      assert.equal(git.appliedForward.length, 0);
+    });
+  });
+
+  describe('rejected changes trash', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'diff-reviewer-test-'));
+      state = new StateManager(
+        git as unknown as GitAdapter,
+        undefined,
+        undefined,
+        new RejectTrash(dir),
+      );
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps a rejected hunk until its rejection is undone', async () => {
+      const file = makeFile([makeHunk({ id: 'trashed' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+
+      await state.reject('test.txt', 'trashed', file);
+      const [entry] = await state.listRejected();
+      assert.equal(entry.filePath, 'test.txt');
+      assert.equal(entry.baseBlob, 'base-blob');
+      assert.ok(entry.forwardPatch?.includes('@@ -1,3 +1,4 @@'));
+
+      await state.undo();
+      assert.deepEqual(await state.listRejected(), []);
+    });
+
+    it('merges a change back in three ways once the file has changed', async () => {
+      const file = makeFile([makeHunk({ id: 'restore-me' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+      await state.reject('test.txt', 'restore-me', file);
+      const [entry] = await state.listRejected();
+
+      git.forwardFails = true;
+      const restored = await state.restoreRejected(entry.id);
+
+      assert.deepEqual(restored, { filePath: 'test.txt', conflicts: true });
+      assert.deepEqual(git.mergedThreeWay, ['base-blob']);
+      assert.deepEqual(await state.listRejected(), []);
+      // Re-applied already, so undo has nothing left to bring back
+      assert.equal(await state.undo(), null);
+    });
+  });
+
   describe('undo', () => {
     it('returns null when stack is empty', async () => {
       const result = await state.undo();
@@ -209,6 +630,62 @@ describe('StateManager', () => {
     });
   });
 
+  describe('redo', () => {
+    it('returns null when nothing was undone', async () => {
+      assert.equal(await state.redo(), null);
+    });
+
+    it('redoes an undone reject by reverse-applying its patch again', async () => {
+      const file = makeFile([makeHunk({ id: 'redo-reject' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+      await state.reject('test.txt', 'redo-reject', file);
+      await state.undo();
+
+      const result = await state.redo();
+      assert.equal(result?.redoneType, 'reject');
+      assert.equal(git.appliedReverse.length, 2);
+      assert.equal(git.appliedReverse[1], git.appliedForward[0]);
+
+      // The redone reject can be undone again
+      assert.equal((await state.undo())?.undoneType, 'reject');
+      assert.equal(git.appliedForward.length, 2);
+    });
+
+    it('redoes an undone approval', async () => {
+      const file = makeFile([makeHunk({ id: 'redo-approve' })]);
+      state.syncStatuses(file);
+      state.approve('test.txt', 'redo-approve');
+      await state.undo();
+
+      await state.redo();
+      assert.deepEqual(state.getStatusArray(file), ['approved']);
+    });
+
+    it('is cleared by a new action', async () => {
+      const file = makeFile([makeHunk({ id: 'x' }), makeHunk({ id: 'y' })]);
+      state.syncStatuses(file);
+      state.approve('test.txt', 'x');
+      await state.undo();
+      state.approve('test.txt', 'y');
+
+      assert.equal(await state.redo(), null);
+      assert.deepEqual(state.getStatusArray(file), ['pending', 'approved']);
+    });
+
+    it('refuses to patch a file that changed since, and drops the action', async () => {
+      const file = makeFile([makeHunk({ id: 'stale' })]);
+      state.syncStatuses(file);
+      git.nextFileDiff = [];
+      await state.reject('test.txt', 'stale', file);
+
+      git.fileHash = 'edited-since';
+      await assert.rejects(() => state.undo(), /test\.txt changed after the rejection/);
+      assert.equal(git.appliedForward.length, 0);
+      assert.equal(await state.undo(), null);
+    });
+  });
+
   describe('isFileResolved', () => {
     it('returns false when hunks are pending', () => {
       const file = makeFile([makeHunk({ id: 'a' }), makeHunk({ id: 'b' })]);
@@ -253,6 +730,62 @@ describe('StateManager', () => {
     });
   });
 
+  describe('moved blocks', () => {
+    let from: DiffFile;
+    let to: DiffFile;
+
+    beforeEach(() => {
+      from = makeFile([
+        makeHunk({ id: 'out', moved: { filePath: 'b.txt', hunkId: 'in', line: 1 } }),
+      ]);
+      to = {
+        ...makeFile([
+          makeHunk({ id: 'in', moved: { filePath: 'test.txt', hunkId: 'out', line: 1 } }),
+        ]),
+        oldPath: 'b.txt',
+        newPath: 'b.txt',
+      };
+      state.setFileLookup((filePath) => (filePath === 'b.txt' ? to : undefined));
+      state.syncStatuses(from);
+    });
+
+    it('approves both halves and undoes them together', async () => {
+      await state.approve('test.txt', 'out', from);
+      assert.deepEqual(state.getStatusArray(to), ['approved']);
+
+      const result = await state.undo();
+      assert.equal(result?.movedFilePath, 'b.txt');
+      assert.deepEqual(state.getStatusArray(from), ['pending']);
+      assert.deepEqual(state.getStatusArray(to), ['pending']);
+      assert.equal(await state.undo(), null);
+    });
+
+    it('rejects both halves', async () => {
+      git.nextFileDiff = [];
+      await state.reject('test.txt', 'out', from);
+      assert.equal(git.appliedReverse.length, 2);
+
+      await state.undo();
+      assert.equal(git.appliedForward.length, 2);
+    });
+  });
+
+  describe('approveWhitespaceOnly', () => {
+    it('approves only pending whitespace-only hunks', async () => {
+      const hunks = [
+        makeHunk({ id: 'x', whitespaceOnly: true }),
+        makeHunk({ id: 'y' }),
+        makeHunk({ id: 'z', whitespaceOnly: true }),
+      ];
+      const file = makeFile(hunks);
+      state.syncStatuses(file);
+      await state.approve('test.txt', 'z');
+
+      assert.equal(await state.approveWhitespaceOnly('test.txt', file), 1);
+      assert.deepEqual(state.getStatusArray(file), ['approved', 'pending', 'approved']);
+    });
+  });
+
   describe('rejectAll', () => {
     it('rejects all pending hunks', async () => {
       const hunks = [makeHunk({ id: 'r1' }), makeHunk({ id: 'r2' })];
@@ -277,16 +810,18 @@ describe('StateManager', () => {
   });
 
   describe('clear', () => {
-    it('resets all state', async () => {
+    it('resets statuses but keeps the undo history', async () => {
       const hunk = makeHunk({ id: 'c1' });
       const file = makeFile([hunk]);
       state.syncStatuses(file);
-      state.approve('test.txt', 'c1');
+      git.nextFileDiff = [];
+      await state.reject('test.txt', 'c1', file);
 
       state.clear();
       assert.deepEqual(state.getStatusArray(file), ['pending']);
       const undoResult = await state.undo();
-      assert.equal(undoResult, null);
+      assert.equal(undoResult?.undoneType, 'reject');
+      assert.equal(git.appliedForward.length, 1);
     });
   });
 
@@ -313,6 +848,68 @@ describe('StateManager', () => {
     });
   });
 
+  describe('changing granularity', () => {
+    const first = makeHunk({
+      id: 'first',
+      oldStart: 2,
+      oldCount: 0,
+      newStart: 2,
+      newCount: 1,
+      lines: [{ type: 'add', content: 'one' }],
+    });
+    const second = makeHunk({
+      id: 'second',
+      oldStart: 4,
+      oldCount: 1,
+      newStart: 5,
+      newCount: 1,
+      lines: [
+        { type: 'remove', content: 'two' },
+        { type: 'add', content: 'three' },
+      ],
+    });
+    const merged = makeHunk({
+      id: 'merged',
+      oldStart: 2,
+      oldCount: 3,
+      newStart: 2,
+      newCount: 4,
+      lines: [
+        { type: 'add', content: 'one' },
+        { type: 'context', content: 'a' },
+        { type: 'context', content: 'b' },
+        { type: 'remove', content: 'two' },
+        { type: 'add', content: 'three' },
+      ],
+    });
+
+    it('keeps a merged hunk approved only if every part was', () => {
+      const split = makeFile([first, second]);
+      state.syncStatuses(split);
+      state.approve('test.txt', 'first');
+
+      const joined = makeFile([merged]);
+      state.restoreApprovedLines(state.getApprovedLines([split]), [joined]);
+      assert.deepEqual(state.getStatusArray(joined), ['pending']);
+
+      state.syncStatuses(split);
+      state.approve('test.txt', 'first');
+      state.approve('test.txt', 'second');
+      state.restoreApprovedLines(state.getApprovedLines([split]), [joined]);
+      assert.deepEqual(state.getStatusArray(joined), ['approved']);
+    });
+
+    it('passes the approval of a hunk on to its parts', () => {
+      const joined = makeFile([merged]);
+      state.syncStatuses(joined);
+      state.approve('test.txt', 'merged');
+
+      const split = makeFile([first, second]);
+      state.restoreApprovedLines(state.getApprovedLines([joined]), [split]);
+      assert.deepEqual(state.getStatusArray(split), ['approved', 'approved']);
+    });
+  });
+
   describe('persistence', () => {
     it('persists and restores approved statuses', () => {
       const memento = new MockMemento();
@@ -335,6 +932,29 @@ describe('StateManager', () => {
       assert.equal(statuses[0], 'approved');
     });
 
+    it('keeps the undo and redo history across restarts', async () => {
+      const memento = new MockMemento();
+      const state1 = new StateManager(
+        git as unknown as GitAdapter,
+        memento as unknown as vscode.Memento,
+      );
+      const file = makeFile([makeHunk({ id: 'a' }), makeHunk({ id: 'b' })]);
+      state1.syncStatuses(file);
+      state1.approve('test.txt', 'b');
+      git.nextFileDiff = [];
+      await state1.reject('test.txt', 'a', file);
+      await state1.undo();
+
+      const state2 = new StateManager(
+        git as unknown as GitAdapter,
+        memento as unknown as vscode.Memento,
+      );
+      assert.equal((await state2.redo())?.redoneType, 'reject');
+      assert.equal((await state2.undo())?.undoneType, 'reject');
+      assert.equal((await state2.undo())?.undoneType, 'approve');
+      assert.equal(git.appliedForward.length, 2);
+    });
+
     it('does not persist pending statuses', () => {
       const memento = new MockMemento();
       const state1 = new StateManager(
@@ -353,6 +973,189 @@ describe('StateManager', () => {
       );
       assert.deepEqual(state2.getStatuses('test.txt'), []);
     });
+
+    it('keeps state of different repositories apart', () => {
+      const memento = new MockMemento();
+      const storage = memento as unknown as vscode.Memento;
+      const repoA = new StateManager(git as unknown as GitAdapter, storage, '/work/a');
+
+      const file = makeFile([makeHunk({ id: 'shared-path' })]);
+      repoA.syncStatuses(file);
+      repoA.approve('test.txt', 'shared-path');
+
+      const repoB = new StateManager(git as unknown as GitAdapter, storage, '/work/b');
+      assert.equal(repoB.getStatusArray(file)[0], 'pending');
+      const reopenedA = new StateManager(git as unknown as GitAdapter, storage, '/work/a');
+      assert.equal(reopenedA.getStatusArray(file)[0], 'approved');
+    });
+
+    it('migrates unscoped state to the primary repository', () => {
+      const memento = new MockMemento();
+      const storage = memento as unknown as vscode.Memento;
+      const legacy = new StateManager(git as unknown as GitAdapter, storage);
+
+      const file = makeFile([makeHunk({ id: 'legacy' })]);
+      legacy.syncStatuses(file);
+      legacy.approve('test.txt', 'legacy');
+
+      StateManager.migrateLegacyState(storage, '/work/a');
+      const scoped = new StateManager(git as unknown as GitAdapter, storage, '/work/a');
+      assert.equal(scoped.getStatusArray(file)[0], 'approved');
+      assert.equal(memento.get('diffReviewer.hunkStatuses'), undefined);
+    });
+
+    it('keeps approvals per branch and restores them on switching back', async () => {
+      const storage = new MockMemento() as unknown as vscode.Memento;
+      const scoped = new StateManager(git as unknown as GitAdapter, storage, '/work/a');
+      const file = makeFile([makeHunk({ id: 'on-main' })]);
+      scoped.syncStatuses(file);
+      await scoped.approve('test.txt', 'on-main');
+
+      // Approvals from before branches were tracked carry over to the first branch
+      scoped.setBranch('main');
+      assert.equal(scoped.getStatusArray(file)[0], 'approved');
+
+      scoped.setBranch('feature');
+      assert.equal(scoped.getStatusArray(file)[0], 'pending');
+      scoped.setBranch('main');
+      assert.equal(scoped.getStatusArray(file)[0], 'approved');
+    });
+
+    it('keeps approvals made on a detached HEAD off the branches', async () => {
+      const storage = new MockMemento() as unknown as vscode.Memento;
+      const scoped = new StateManager(git as unknown as GitAdapter, storage, '/work/a');
+      const file = makeFile([makeHunk({ id: 'detached' })]);
+      scoped.setBranch(undefined);
+      scoped.syncStatuses(file);
+      await scoped.approve('test.txt', 'detached');
+
+      scoped.setBranch('feature');
+      assert.equal(scoped.getStatusArray(file)[0], 'pending');
+      scoped.setBranch(undefined);
+      assert.equal(scoped.getStatusArray(file)[0], 'approved');
+    });
+  });
+
+  describe('renames and other file-level changes', () => {
+    function makeRename(): DiffFile {
+      const meta = makeHunk({
+        id: 'rename',
+        meta: 'rename',
+        header: 'Renamed from old.txt',
+        lines: [],
+        rawLines: [],
+      });
+      return {
+        ...makeFile([meta, makeHunk({ id: 'edit' })]),
+        renamedFrom: 'old.txt',
+        diffHeader: ['--- a/old.txt', '+++ b/test.txt'],
+      };
+    }
+
+    it('reverts a rejected rename through the git adapter and restores it on undo', async () => {
+      const file = makeRename();
+      state.syncStatuses(file);
+
+      await state.reject('test.txt', 'rename', file);
+      assert.deepEqual(git.revertedMeta, ['rename']);
+      assert.deepEqual(git.appliedReverse, []);
+
+      await state.undo();
+      assert.equal(git.restoredMeta.length, 1);
+      assert.equal(git.restoredMeta[0].kind, 'rename');
+    });
+
+    it('rejects line changes before the rename when rejecting a file', async () => {
+      const file = makeRename();
+      state.syncStatuses(file);
+      // After the line change only the rename is left; after the rename nothing
+      const diffs = [[{ ...file, hunks: [file.hunks[0]] }], []];
+      git.getFileDiff = async () => diffs.shift() ?? [];
+
+      await state.rejectAll('test.txt', file);
+      assert.equal(git.appliedReverse.length, 1);
+      assert.deepEqual(git.revertedMeta, ['rename']);
+    });
+
+    it('commits the lines of a copy only together with the copy', () => {
+      const copy = makeHunk({ id: 'copy', meta: 'copy', lines: [], rawLines: [] });
+      const file = { ...makeFile([copy, makeHunk({ id: 'edit' })]), copiedFrom: 'src.txt' };
+      state.syncStatuses(file);
+      state.approve('test.txt', 'edit');
+
+      assert.deepEqual(state.getApprovedPatches([file]), []);
+    });
+  });
+
+  describe('deleted files', () => {
+    it('restores a rejected deleted file and deletes it again on undo', async () => {
+      const hunk = makeHunk({
+        id: 'gone',
+        oldCount: 2,
+        newStart: 0,
+        newCount: 0,
+        lines: [
+          { type: 'remove', content: 'one' },
+          { type: 'remove', content: 'two' },
+        ],
+      });
+      const file: DiffFile = {
+        ...makeFile([hunk]),
+        newPath: '/dev/null',
+        isDeleted: true,
+        diffHeader: ['--- a/test.txt', '+++ /dev/null'],
+      };
+      state.syncStatuses(file);
+
+      await state.reject('test.txt', 'gone', file);
+      assert.deepEqual(git.restoredDeleted, ['test.txt']);
+      assert.deepEqual(git.appliedReverse, []);
+
+      await state.undo();
+      assert.deepEqual(git.restoredMeta, [{ kind: 'delete', path: 'test.txt', scope: 'all' }]);
+    });
+  });
+
+  describe('getApprovedPatches', () => {
+    it('builds one patch per file from approved hunks only', () => {
+      const approved = makeHunk({
+        id: 'ok',
+        oldStart: 5,
+        oldCount: 0,
+        newStart: 6,
+        newCount: 1,
+        rawLines: ['@@ -4,0 +6,1 @@', '+kept'],
+      });
+      const pending = makeHunk({
+        id: 'later',
+        oldStart: 2,
+        oldCount: 0,
+        newStart: 2,
+        newCount: 1,
+        rawLines: ['@@ -1,0 +2,1 @@', '+skipped'],
+      });
+      const file = makeFile([pending, approved]);
+      state.syncStatuses(file);
+      state.approve('test.txt', 'ok');
+
+      const patches = state.getApprovedPatches([file, makeFile([makeHunk()])]);
+      assert.equal(patches.length, 1);
+      assert.equal(patches[0].filePath, 'test.txt');
+      assert.equal(patches[0].hunkCount, 1);
+      // The skipped insertion above must not shift the new-side start
+      assert.equal(patches[0].patch, '--- a/test.txt\n+++ b/test.txt\n@@ -4,0 +5,1 @@\n+kept\n');
+    });
+
+    it('commits an approved binary file whole instead of as a patch', () => {
+      const binary = makeHunk({ id: 'bin', meta: 'binary', lines: [], rawLines: [] });
+      const file: DiffFile = { ...makeFile([binary]), isBinary: true, diffHeader: [] };
+      state.syncStatuses(file);
+      state.approve('test.txt', 'bin');
+
+      assert.deepEqual(state.getApprovedPatches([file]), [
+        { filePath: 'test.txt', paths: ['test.txt'], patch: '', hunkCount: 1, binary: true },
+      ]);
+    });
   });
 
   describe('pruneCommittedFiles', () => {
@@ -368,6 +1171,15 @@ describe('StateManager', () => {
       assert.deepEqual(state.getStatuses('test.txt'), []);
     });
 
+    it('drops committed hunks from files that still have changes', () => {
+      const file = makeFile([makeHunk({ id: 'committed' }), makeHunk({ id: 'pending' })]);
+      state.syncStatuses(file);
+      state.approve('test.txt', 'committed');
+
+      state.pruneCommittedFiles([makeFile([makeHunk({ id: 'pending' })])]);
+      assert.deepEqual(state.getStatuses('test.txt'), ['pending']);
+    });
+
     it('keeps files still in diff', () => {
       const hunk = makeHunk({ id: 'keep-test' });
       const file = makeFile([hunk]);
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeWordRanges, diffWords } from '../src/wordDiff';
+import { DiffHunk } from '../src/types';
+
+describe('diffWords', () => {
+  it('marks only the words that changed', () => {
+    const result = diffWords('const total = price * count;', 'const total = price * quantity;');
+    assert.deepEqual(result, { removed: [[22, 27]], added: [[22, 30]] });
+  });
+
+  it('joins changed words separated by whitespace', () => {
+    const result = diffWords('return a + b;', 'return x + y + b;');
+    assert.deepEqual(result?.added, [[7, 12]]);
+    assert.deepEqual(result?.removed, [[7, 8]]);
+  });
+
+  it('leaves lines with little in common unmarked', () => {
+    assert.equal(diffWords('import { foo } from "bar";', 'console.log(total);'), undefined);
+    assert.equal(diffWords('same', 'same'), undefined);
+  });
+});
+
+describe('computeWordRanges', () => {
+  it('pairs removed and added lines within each run of changes', () => {
+    const hunk: DiffHunk = {
+      oldStart: 1,
+      oldCount: 4,
+      newStart: 1,
+      newCount: 4,
+      header: '@@ -1,4 +1,4 @@',
+      lines: [
+        { type: 'remove', content: 'let a = 1;' },
+        { type: 'add', content: 'let a = 2;' },
+        { type: 'add', content: 'let extra = 3;' },
+        { type: 'context', content: '' },
+        { type: 'remove', content: 'call(a, b);' },
+        { type: 'remove', content: 'done();' },
+        { type: 'add', content: 'call(a, c);' },
+      ],
+      rawLines: [],
+    };
+
+    const [ranges] = computeWordRanges([hunk]);
+    assert.deepEqual(ranges, {
+      0: [[8, 9]],
+      1: [[8, 9]],
+      4: [[8, 9]],
+      6: [[8, 9]],
+    });
+  });
+});